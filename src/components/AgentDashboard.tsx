@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -7,6 +7,8 @@ import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
 import { 
   Brain, 
@@ -17,6 +19,7 @@ import {
   Zap,
   Play,
   Pause,
+  Square,
   RotateCcw,
   TrendingUp,
   Key,
@@ -26,67 +29,28 @@ import {
   ChevronDown,
   ChevronRight,
   Copy,
-  Download
+  Download,
+  Gauge,
+  Activity
 } from 'lucide-react';
+import { PROVIDERS, DEFAULT_MODEL_PARAMS, getProvider, resolveProvider, normalizeBaseUrl, buildChatRequest, parseChatResponse, type ChatMessage, type LLMReply, type ModelParams, type ProviderSettings } from '@/lib/agent/providers';
+import { TOOL_NAMES, buildSystemPrompt, validateToolCall, type ToolName, type ValidToolCall } from '@/lib/agent/tools';
+import { APPROVAL_MODES, DEFAULT_APPROVAL_POLICY, evaluateApproval, formatCommandRules, parseCommandRules, shellCommandOf, type ApprovalMode, type ApprovalPolicy, type ApprovalResponse } from '@/lib/agent/approval';
+import { CommandPolicyError, checkCommandPolicy, describeViolations, fetchCommandPolicy, formatPolicyRefusal, formatPolicyRule, type CommandPolicyInfo, type CommandPolicyVerdict } from '@/lib/agent/command-policy';
+import { parseMockScript, createMockResponder, type MockResponder } from '@/lib/agent/mock-provider';
+import { DEFAULT_RETRY_POLICY, ProviderHTTPError, fetchProvider, parseRetryAfter, withRetry, type RetryPolicy } from '@/lib/agent/retry';
+import { extractToolCalls, type RawToolCall } from '@/lib/agent/extract';
+import { formatGitBranches, formatGitDiff, formatGitLog, formatGitStashes, formatGitStatus } from '@/lib/agent/git';
+import { streamChatResponse, renderPartialReply, type PartialReply } from '@/lib/agent/stream';
+import { describeExit, runShellStream, type ShellResult } from '@/lib/agent/shell';
+import { describeProcessStatus, fetchProcesses, formatProcessInfo, type ProcessInfo } from '@/lib/agent/processes';
+import { DEFAULT_EXECUTION_SETTINGS, ENV_POLICIES, SANDBOX_BACKENDS, describeSandbox, disallowedReason, fetchSandboxBackends, resolveBackend, type EnvPolicy, type ExecutionSettings, type SandboxBackendsInfo } from '@/lib/agent/sandbox';
+import { BudgetExceededError, DEFAULT_RUN_BUDGET, checkBudget, type RunBudget, type RunSpend } from '@/lib/agent/budget';
+import { EMPTY_USAGE_TOTALS, addUsage, contextWindowFor, costOf, estimateTokens, formatCost, formatTokens, formatUsageTotals, priceFor, type TokenUsage, type UsageTotals } from '@/lib/agent/usage';
 // Removed template-based CodegenPanel; agent now handles real codegen via tool calls
 
-// Enhanced system prompt for real agent execution
-const SYSTEM_PROMPT = `
-You are Reflex Coder, a precise, instruction-following autonomous coding agent.
-
-Instruction Hierarchy (strict):
-1) User instructions and constraints
-2) Repo-specific conventions and existing patterns
-3) Language/framework best practices
-4) Your general preferences
-
-Operating Rules:
-- Restate the task and list explicit requirements you must satisfy.
-- Ask concise clarifying questions if anything is ambiguous; otherwise proceed.
-- Produce a short plan first, then execute it step-by-step using tools.
-- Prefer minimal, surgical changes aligned with the repo style.
-- Validate results (build/tests/lint) when feasible; report failures and next steps.
-- Never fabricate tools, files, or APIs. Use only the tools listed below.
-- Stop and request confirmation before destructive changes (deletes/moves) unless explicitly allowed.
-
-Available Tools (JSON-only calls; no extra text):
-- read_file: {"tool":"read_file","path":"<path>"}
-- list_files: {"tool":"list_files","path":"<dir|optional>","maxDepth":<int|optional>}
-- make_dir: {"tool":"make_dir","path":"<dir>","recursive":true}
-- write_file: {"tool":"write_file","path":"<path>","content":"<full content>","overwrite":true}
-- move_path: {"tool":"move_path","from":"<old>","to":"<new>","overwrite":true}
-- delete_path: {"tool":"delete_path","path":"<path>","recursive":true}
-- run_shell: {"tool":"run_shell","cmd":"<command>"}
-- git_commit: {"tool":"git_commit","msg":"<conventional commit message>"}
-- test_runner: {"tool":"test_runner","cmd":"<optional test command>"}
-
-Response Policy:
-- Tool calls: emit ONLY compact JSON objects as above, one per action.
-- Explanations: concise, action-focused natural language when not calling tools.
-- If the user requests code, prefer writing directly to files via write_file.
-- After changes, run tests or build if applicable.
-- Do not claim success until verification passes.
-
-Quality Bar:
-- Idiomatic, type-safe, well-structured code with error handling.
-- Clear, minimal documentation where helpful; avoid noisy comments.
-- Keep changes focused on the user’s request; avoid unrelated refactors.
-`;
-
-const TOOL_PROMPTS: Record<string, string> = {
-  read_file: `Read file content before editing to maintain context and style.`,
-  list_files: `Discover project structure before adding new files.`,
-  make_dir: `Create needed directories before writing files.`,
-  write_file: `Write full file content (idempotent). Include imports and error handling.`,
-  move_path: `Rename/move paths carefully; preserve imports and references.`,
-  delete_path: `Delete only when certain. Prefer deprecation over removal.`,
-  run_shell: `Run build/test/lint or local scripts. Capture outputs.`,
-  git_commit: `Atomic commits with conventional messages (feat|fix|docs|refactor).`,
-  test_runner: `Run the project's tests or a provided command.`,
-};
-
 interface AgentState {
-  status: 'idle' | 'thinking' | 'coding' | 'testing' | 'verifying' | 'committing' | 'training';
+  status: 'idle' | 'thinking' | 'coding' | 'testing' | 'verifying' | 'committing' | 'training' | 'paused' | 'awaiting_approval' | 'budget_exhausted';
   thoughts: string[];
   currentAction: string;
   tools: string[];
@@ -100,13 +64,63 @@ interface AgentState {
 
 interface LogEntry {
   timestamp: string;
-  type: 'thought' | 'action' | 'tool' | 'reward' | 'code' | 'file';
+  type: 'thought' | 'action' | 'tool' | 'reward' | 'code' | 'file' | 'stream' | 'terminal';
   content: string;
+  // Set on entries that are updated in place (streamed model output)
+  id?: string;
+  streaming?: boolean;
+  // Terminal entries: the command and, once it has exited, how it ended
+  command?: string;
+  exitStatus?: string;
   reward?: number;
   code?: string;
   filename?: string;
 }
 
+interface ToolResult {
+  tool: string;
+  // Native tool-call id, when the call came from the provider's function-calling API
+  callId?: string;
+  ok: boolean;
+  output: string;
+}
+
+// JSON body of a dev-server API response, with the HTTP status
+interface APIResponse {
+  status: number;
+  ok: boolean;
+  success?: boolean;
+  error?: string;
+  content?: string;
+}
+
+// apply_patch report per file (tools/patch-applier.js)
+interface PatchFileReport {
+  path: string;
+  status: string;
+  error?: string;
+  hunks?: Array<{ index: number; applied: boolean; oldStart: number; line?: number; offset?: number; fuzz?: number; whitespace?: boolean; error?: string }>;
+}
+
+// Cap on how much of a single tool result is fed back to the model
+const MAX_TOOL_OUTPUT_CHARS = 8000;
+// read_file page size when the model does not pass limit
+const READ_FILE_DEFAULT_LINES = 400;
+// Output kept in a live terminal log entry; older output scrolls off
+const TERMINAL_LOG_CHARS = 64 * 1024;
+
+// A JSON setting saved in localStorage; undefined when it is missing or unreadable
+function readStoredJSON<T>(key: string): T | undefined {
+  const saved = localStorage.getItem(key);
+  if (!saved) return undefined;
+  try {
+    return JSON.parse(saved) as T;
+  } catch {
+    // Written by an older or broken version; the setting keeps its default
+    return undefined;
+  }
+}
+
 export default function AgentDashboard() {
   const [agentState, setAgentState] = useState<AgentState>({
     status: 'idle',
@@ -121,38 +135,110 @@ export default function AgentDashboard() {
   const [command, setCommand] = useState('');
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [isRunning, setIsRunning] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  // Run control: aborting cancels in-flight requests; pausing parks the loop at the next checkpoint
+  const abortRef = useRef<AbortController | null>(null);
+  const pauseRequestedRef = useRef(false);
+  const resumeRef = useRef<(() => void) | null>(null);
+  // Limits for a single run and what the current run has consumed against them
+  const [runBudget, setRunBudget] = useState<RunBudget>(DEFAULT_RUN_BUDGET);
+  const runSpendRef = useRef<RunSpend>({ startedAt: 0, tokens: 0, cost: 0, toolCalls: 0 });
+  // Content hash per path as of the agent's last read or write; edits send it so the server can refuse stale changes
+  const fileHashesRef = useRef<Record<string, string>>({});
+  // Which tool calls run automatically, need the user's approval or are refused
+  const [approvalPolicy, setApprovalPolicy] = useState<ApprovalPolicy>(DEFAULT_APPROVAL_POLICY);
+  const [commandRulesText, setCommandRulesText] = useState(formatCommandRules(DEFAULT_APPROVAL_POLICY.commands));
+  // The call waiting in the approval dialog; the loop is blocked on approvalResolveRef until it is answered
+  const [pendingApproval, setPendingApproval] = useState<{ tool: ToolName; reason: string; argsText: string; editedText: string; rejectReason: string } | null>(null);
+  const approvalResolveRef = useRef<((response: ApprovalResponse) => void) | null>(null);
+  // The dev server's own command policy, enforced before any shell command runs (shown read-only)
+  const [commandPolicyInfo, setCommandPolicyInfo] = useState<CommandPolicyInfo | null>(null);
+  // Background processes (dev servers, watchers) and, per process, how much output the agent has read
+  const [processes, setProcesses] = useState<ProcessInfo[]>([]);
+  const processCursorsRef = useRef<Record<string, number>>({});
+  // Execution backend, network and env policy keyed by workspace folder; workspaces without an entry use the server defaults
+  const [executionSettings, setExecutionSettings] = useState<Record<string, ExecutionSettings>>({});
+  const [sandboxBackends, setSandboxBackends] = useState<SandboxBackendsInfo | null>(null);
   const [trainingProgress, setTrainingProgress] = useState(0);
   const [autoContinue, setAutoContinue] = useState(true);
   const [maxAttempts, setMaxAttempts] = useState(3);
+  // Upper bound on model calls (observe/act turns) within a single attempt
+  const [maxSteps, setMaxSteps] = useState(12);
+  // Stream model output token-by-token into the activity log
+  const [streamResponses, setStreamResponses] = useState<boolean>(true);
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(DEFAULT_RETRY_POLICY);
+  // On persistent failure, move down the configured models in selectedModels order
+  const [failoverEnabled, setFailoverEnabled] = useState<boolean>(true);
   const [verificationCmd, setVerificationCmd] = useState<string>('');
   const [strictMode, setStrictMode] = useState<boolean>(true);
   // Allow continuing iterations even when no verification command is set
   const [iterateWithoutVerify, setIterateWithoutVerify] = useState<boolean>(false);
   const [stats, setStats] = useState<{ totalAttempts: number; totalSuccesses: number }>({ totalAttempts: 0, totalSuccesses: 0 });
-  const [attemptHistory, setAttemptHistory] = useState<Array<{ attempt: number; timestamp: string; cmd?: string; success?: boolean; stdout?: string; stderr?: string }>>([]);
+  const [attemptHistory, setAttemptHistory] = useState<Array<{ attempt: number; timestamp: string; cmd?: string; success?: boolean; stdout?: string; stderr?: string; usage?: UsageTotals }>>([]);
+  // Token/cost totals for the current (or last) run and across all runs
+  const [runUsage, setRunUsage] = useState<UsageTotals>(EMPTY_USAGE_TOTALS);
+  const [cumulativeUsage, setCumulativeUsage] = useState<UsageTotals>(EMPTY_USAGE_TOTALS);
+  // Size of the latest request+reply against the model's context window
+  const [contextUsage, setContextUsage] = useState<{ used: number; window: number } | null>(null);
   const [selectedProvider, setSelectedProvider] = useState('');
   const [apiKey, setApiKey] = useState('');
   const [availableModels, setAvailableModels] = useState<Record<string, any[]>>({});
   const [selectedModels, setSelectedModels] = useState<Record<string, string>>({});
+  // The model runs use; chosen explicitly and persisted, independent of which provider was configured first
+  const [activeModel, setActiveModel] = useState<{ providerId: string; modelId: string } | null>(null);
+  // Sampling parameters keyed by `${providerId}:${modelId}`
+  const [modelParams, setModelParams] = useState<Record<string, Partial<ModelParams>>>({});
   const [loadingModels, setLoadingModels] = useState(false);
   const [workspaceFolder, setWorkspaceFolder] = useState('./workspace');
   const [generatedFiles, setGeneratedFiles] = useState<{filename: string, content: string}[]>([]);
   const [showCodePanel, setShowCodePanel] = useState(false);
   const [storedApiKeys, setStoredApiKeys] = useState<Record<string, string>>({});
+  // Per-provider overrides (base URL, tool calling) for custom/local endpoints
+  const [providerSettings, setProviderSettings] = useState<Record<string, ProviderSettings>>({});
+  const [customBaseUrl, setCustomBaseUrl] = useState('');
+  const [customNativeTools, setCustomNativeTools] = useState(true);
+  const [mockFixturePath, setMockFixturePath] = useState('');
+  // Scripted replies for the mock provider; rebuilt at the start of every run so replays are deterministic
+  const mockResponderRef = useRef<MockResponder | null>(null);
   const { toast } = useToast();
 
   // Persist workspace folder across sessions and allow absolute paths
   useEffect(() => {
     const saved = localStorage.getItem('reflex.workspaceFolder');
     if (saved) setWorkspaceFolder(saved);
-    const savedStats = localStorage.getItem('reflex.stats');
-    if (savedStats) {
-      try { setStats(JSON.parse(savedStats)); } catch {}
-    }
+    const savedStats = readStoredJSON<typeof stats>('reflex.stats');
+    if (savedStats) setStats(savedStats);
+    const savedUsage = readStoredJSON<Partial<typeof cumulativeUsage>>('reflex.usage');
+    if (savedUsage) setCumulativeUsage({ ...EMPTY_USAGE_TOTALS, ...savedUsage });
     const savedStrict = localStorage.getItem('reflex.strictMode');
     if (savedStrict !== null) setStrictMode(savedStrict === '1');
     const savedIterNoVerify = localStorage.getItem('reflex.iterateWithoutVerify');
     if (savedIterNoVerify !== null) setIterateWithoutVerify(savedIterNoVerify === '1');
+    const savedMaxSteps = Number(localStorage.getItem('reflex.maxSteps'));
+    if (savedMaxSteps > 0) setMaxSteps(savedMaxSteps);
+    const savedProviderSettings = readStoredJSON<typeof providerSettings>('reflex.providerSettings');
+    if (savedProviderSettings) setProviderSettings(savedProviderSettings);
+    const savedActiveModel = readStoredJSON<typeof activeModel>('reflex.activeModel');
+    if (savedActiveModel) setActiveModel(savedActiveModel);
+    const savedModelParams = readStoredJSON<typeof modelParams>('reflex.modelParams');
+    if (savedModelParams) setModelParams(savedModelParams);
+    const savedRetry = readStoredJSON<Partial<RetryPolicy>>('reflex.retryPolicy');
+    if (savedRetry) setRetryPolicy({ ...DEFAULT_RETRY_POLICY, ...savedRetry });
+    const savedBudget = readStoredJSON<Partial<RunBudget>>('reflex.runBudget');
+    if (savedBudget) setRunBudget({ ...DEFAULT_RUN_BUDGET, ...savedBudget });
+    const savedApproval = readStoredJSON<Partial<ApprovalPolicy>>('reflex.approvalPolicy');
+    if (savedApproval) {
+      // Tools added since the policy was saved get their default mode
+      const policy = { ...DEFAULT_APPROVAL_POLICY, ...savedApproval, tools: { ...DEFAULT_APPROVAL_POLICY.tools, ...savedApproval.tools } };
+      setApprovalPolicy(policy);
+      setCommandRulesText(formatCommandRules(policy.commands));
+    }
+    const savedFailover = localStorage.getItem('reflex.failover');
+    if (savedFailover !== null) setFailoverEnabled(savedFailover === '1');
+    const savedStream = localStorage.getItem('reflex.streamResponses');
+    if (savedStream !== null) setStreamResponses(savedStream === '1');
+    const savedExecution = readStoredJSON<typeof executionSettings>('reflex.executionSettings');
+    if (savedExecution) setExecutionSettings(savedExecution);
   }, []);
   useEffect(() => {
     if (workspaceFolder) localStorage.setItem('reflex.workspaceFolder', workspaceFolder);
@@ -160,49 +246,155 @@ export default function AgentDashboard() {
   useEffect(() => {
     localStorage.setItem('reflex.stats', JSON.stringify(stats));
   }, [stats]);
+  useEffect(() => {
+    localStorage.setItem('reflex.usage', JSON.stringify(cumulativeUsage));
+  }, [cumulativeUsage]);
   useEffect(() => {
     localStorage.setItem('reflex.strictMode', strictMode ? '1' : '0');
   }, [strictMode]);
   useEffect(() => {
     localStorage.setItem('reflex.iterateWithoutVerify', iterateWithoutVerify ? '1' : '0');
   }, [iterateWithoutVerify]);
+  useEffect(() => {
+    localStorage.setItem('reflex.maxSteps', String(maxSteps));
+  }, [maxSteps]);
+  useEffect(() => {
+    localStorage.setItem('reflex.providerSettings', JSON.stringify(providerSettings));
+  }, [providerSettings]);
+  useEffect(() => {
+    if (activeModel) localStorage.setItem('reflex.activeModel', JSON.stringify(activeModel));
+  }, [activeModel]);
+  useEffect(() => {
+    localStorage.setItem('reflex.modelParams', JSON.stringify(modelParams));
+  }, [modelParams]);
+  useEffect(() => {
+    localStorage.setItem('reflex.retryPolicy', JSON.stringify(retryPolicy));
+  }, [retryPolicy]);
+  useEffect(() => {
+    localStorage.setItem('reflex.runBudget', JSON.stringify(runBudget));
+  }, [runBudget]);
+  useEffect(() => {
+    localStorage.setItem('reflex.approvalPolicy', JSON.stringify(approvalPolicy));
+  }, [approvalPolicy]);
+  useEffect(() => {
+    localStorage.setItem('reflex.failover', failoverEnabled ? '1' : '0');
+  }, [failoverEnabled]);
+  useEffect(() => {
+    localStorage.setItem('reflex.streamResponses', streamResponses ? '1' : '0');
+  }, [streamResponses]);
+  useEffect(() => {
+    localStorage.setItem('reflex.executionSettings', JSON.stringify(executionSettings));
+  }, [executionSettings]);
 
-  const providers = [
-    { id: 'OPENROUTER_API_KEY', name: 'OpenRouter', description: 'Access to multiple models', baseUrl: 'https://openrouter.ai/api/v1' },
-    { id: 'ANTHROPIC_API_KEY', name: 'Anthropic', description: 'Claude models', baseUrl: 'https://api.anthropic.com' },
-    { id: 'OPENAI_API_KEY', name: 'OpenAI', description: 'GPT models', baseUrl: 'https://api.openai.com/v1' },
-    { id: 'HUGGINGFACE_API_KEY', name: 'HuggingFace', description: 'Open-source models', baseUrl: 'https://api-inference.huggingface.co' },
-    { id: 'GROQ_API_KEY', name: 'Groq', description: 'Fast inference', baseUrl: 'https://api.groq.com/openai/v1' },
-    { id: 'PERPLEXITY_API_KEY', name: 'Perplexity', description: 'Search-enhanced models', baseUrl: 'https://api.perplexity.ai' },
-  ];
+  useEffect(() => {
+    fetchCommandPolicy().then(setCommandPolicyInfo).catch(() => {});
+    fetchSandboxBackends().then(setSandboxBackends).catch(() => {});
+  }, []);
 
+  // Keep the Processes panel current (uptime, ports, output) while anything is running
+  const hasRunningProcesses = processes.some(p => p.status === 'running');
+  useEffect(() => {
+    const refresh = () => fetchProcesses().then(setProcesses).catch(() => {});
+    refresh();
+    if (!hasRunningProcesses) return;
+    const timer = setInterval(refresh, 2000);
+    return () => clearInterval(timer);
+  }, [hasRunningProcesses]);
 
   const runAgent = async () => {
     if (!command.trim()) return;
 
     // Get the active model configuration
-    const firstProvider = Object.keys(selectedModels)[0];
-    if (!firstProvider || !selectedModels[firstProvider] || Object.keys(availableModels).length === 0) {
+    if (!activeModel || !availableModels[activeModel.providerId]) {
       toast({
         title: "No Model Selected",
-        description: "Please configure and select a model first.",
+        description: "Please configure a provider and choose the active model first.",
         variant: "destructive",
       });
       return;
     }
 
+    abortRef.current = new AbortController();
+    pauseRequestedRef.current = false;
+    setIsPaused(false);
     setIsRunning(true);
     setAgentState(prev => ({ ...prev, status: 'thinking', attempts: 0 }));
+    setRunUsage(EMPTY_USAGE_TOTALS);
+    setContextUsage(null);
+    let runTotals = EMPTY_USAGE_TOTALS;
+    let attemptTotals = EMPTY_USAGE_TOTALS;
+    let budgetExhausted = false;
+    runSpendRef.current = { startedAt: Date.now(), tokens: 0, cost: 0, toolCalls: 0 };
+    fileHashesRef.current = {};
+    // The time budget also has to interrupt a model call or command that is still running
+    const budgetTimer = runBudget.maxSeconds > 0
+      ? setTimeout(() => {
+          abortRef.current?.abort(new BudgetExceededError('time', runBudget.maxSeconds, runBudget.maxSeconds));
+          resumeRef.current?.();
+        }, runBudget.maxSeconds * 1000)
+      : undefined;
     addLog('thought', 'System prompt primed with strict instruction-following');
-    addLog('tool', 'Tools ready: read_file, list_files, make_dir, write_file, move_path, delete_path, run_shell, git_commit, test_runner');
+    addLog('tool', `Tools ready: ${TOOL_NAMES.join(', ')}`);
     addLog('thought', `Processing request: ${command}`);
 
     try {
-      const providerData = providers.find(p => p.id === firstProvider);
-      const modelId = selectedModels[firstProvider];
+      const { providerId: activeProvider, modelId } = activeModel;
+      const providerData = resolveProvider(activeProvider, providerSettings[activeProvider]);
+      const nativeTools = providerData?.toolCalling !== 'none';
+      if (providerData?.mock) {
+        const script = await loadMockScript(providerSettings[activeProvider]?.fixturePath || '');
+        mockResponderRef.current = createMockResponder(script);
+        addLog('tool', `Mock script loaded: ${script.rules.length} rule(s), ${script.replies.length} scripted replies`);
+      }
       
+      // Ordered fallback chain: the active model first, then every other configured one
+      const fallbackChain = [
+        activeModel,
+        ...Object.keys(selectedModels)
+          .filter(p => p !== activeProvider && selectedModels[p])
+          .map(p => ({ providerId: p, modelId: selectedModels[p] })),
+      ];
+      let chainIndex = 0;
+      const recordUsage = (providerId: string, candidateModel: string, usage: TokenUsage) => {
+        const listed = availableModels[providerId]?.find(m => m.id === candidateModel);
+        // Mock and self-hosted models cost nothing unless the table knows better
+        const free = getProvider(providerId)?.mock || providerId === 'CUSTOM_OPENAI_API_KEY';
+        const price = priceFor(candidateModel, listed) ?? (free ? { input: 0, output: 0 } : undefined);
+        const cost = price && costOf(usage, price);
+        attemptTotals = addUsage(attemptTotals, usage, cost);
+        runTotals = addUsage(runTotals, usage, cost);
+        runSpendRef.current.tokens = runTotals.promptTokens + runTotals.completionTokens;
+        runSpendRef.current.cost = runTotals.cost;
+        setRunUsage(runTotals);
+        setCumulativeUsage(prev => addUsage(prev, usage, cost));
+        setContextUsage({ used: usage.promptTokens + usage.completionTokens, window: contextWindowFor(candidateModel, listed) });
+        addLog('thought', `📊 ${formatTokens(usage.promptTokens)} in / ${formatTokens(usage.completionTokens)} out${usage.estimated ? ' (estimated)' : ''} · ${cost === undefined ? 'cost n/a' : formatCost(cost)}`);
+      };
+      const callModel = async (messages: ChatMessage[]) => {
+        const candidates = failoverEnabled ? fallbackChain : [activeModel];
+        for (let i = chainIndex; i < candidates.length; i++) {
+          const { providerId, modelId: candidateModel } = candidates[i];
+          const name = `${getProvider(providerId)?.name} - ${candidateModel}`;
+          try {
+            const reply = await withRetry(() => callLLMAPI(providerId, candidateModel, messages), retryPolicy, {
+              signal: abortRef.current?.signal,
+              onRetry: (retry, delayMs, error) => addLog('action', `⏳ ${name} failed (${truncate(error.message, 200)}); retry ${retry}/${retryPolicy.maxRetries} in ${(delayMs / 1000).toFixed(1)}s`),
+            });
+            // Stay on the provider that answered for the rest of the run
+            chainIndex = i;
+            recordUsage(providerId, candidateModel, reply.usage ?? estimateUsage(providerId, messages, reply));
+            return reply;
+          } catch (error) {
+            if (error?.name === 'AbortError' || error instanceof BudgetExceededError || i === candidates.length - 1) throw error;
+            const next = candidates[i + 1];
+            addLog('action', `🔀 Failover: ${name} failed (${truncate(error.message, 200)}). Switching to ${getProvider(next.providerId)?.name} - ${next.modelId}.`);
+          }
+        }
+        throw new Error('No configured model is available');
+      };
+
       setAgentState(prev => ({ ...prev, status: 'coding' }));
-      addLog('thought', `Using ${providerData?.name} - ${modelId}`);
+      addLog('thought', `Using ${providerData?.name} - ${modelId} (${nativeTools ? 'native tool calling' : 'JSON tool calls in text'})`);
       
       // Determine verification command
       // Do NOT auto-detect here anymore. Leaving the field blank disables
@@ -216,10 +408,14 @@ export default function AgentDashboard() {
       
       while (true) {
         attempt += 1;
+        attemptTotals = EMPTY_USAGE_TOTALS;
         setAgentState(prev => ({ ...prev, status: 'coding', attempts: attempt }));
         addLog('thought', `Attempt ${attempt}: planning and executing...`);
 
         // Create the agent request (system prompt sent separately by callLLMAPI)
+        const executeNote = nativeTools
+          ? 'Execute by calling the provided tools.'
+          : 'Execute using ONLY tool-call JSON objects. No surrounding text.';
         const userPrompt = `User Request: ${command}
 
 Context:
@@ -228,39 +424,94 @@ ${lastFailureSummary ? `Previous attempt failed. Key errors/output to address:\n
 Required behavior:
 - Restate the task and list explicit requirements.
 - Propose a short, ordered plan.
-- Execute using ONLY tool-call JSON objects. No surrounding text.
+- ${executeNote}
 - Use the available tools to read existing code, write files, and run commands.
+- Tool results are returned to you after each turn; use them to decide the next action.
 - After changes, run tests or build if applicable and summarize results.
 - Do not claim success until verification passes.
-- Stop and ask for confirmation before destructive actions unless authorized.`;
+- Stop and ask for confirmation before destructive actions unless authorized.
+- Call done with a summary when finished.`;
+
+        // Observe/act loop: every tool result is appended to the history and
+        // the model is called again until it signals done or the step budget runs out.
+        const strictNote = nativeTools
+          ? 'IMPORTANT: Strict mode is enabled. Respond ONLY with tool calls, one per action, with no extra text.'
+          : 'IMPORTANT: Strict mode is enabled. Output ONLY JSON tool call objects, one per action, with no extra text.';
+        const messages: ChatMessage[] = [
+          { role: 'user', content: strictMode ? `${userPrompt}\n\n${strictNote}` : userPrompt },
+        ];
+        let step = 0;
+        let finished = false;
+        let strictFailure = '';
+
+        while (step < maxSteps) {
+          await checkpoint('coding');
+          step += 1;
+          setAgentState(prev => ({ ...prev, status: 'coding' }));
+          addLog('thought', `Step ${step}/${maxSteps}: awaiting model...`);
+
+          const reply = await callModel(messages);
+          if (!reply.text && reply.toolCalls.length === 0) throw new Error('No response from model');
+          messages.push({ role: 'assistant', content: reply.text, toolCalls: reply.toolCalls.length ? reply.toolCalls : undefined });
+
+          setAgentState(prev => ({ ...prev, status: 'testing' }));
+          addLog('action', 'Analyzing response and extracting implementation details...');
+          const proc = await processAgentResponse(reply, { strictMode });
+          if (!proc.ok) {
+            strictFailure = `Strict mode: ${proc.message || 'Expected JSON tool calls only.'}`;
+            addLog('action', strictFailure);
+            messages.push({ role: 'user', content: `${strictFailure}\nRespond again using ONLY ${nativeTools ? 'tool calls' : 'JSON tool call objects'}.` });
+            continue;
+          }
+          strictFailure = '';
 
-        // Make the API call
-        const response = await callLLMAPI(firstProvider, modelId, (strictMode ? `${userPrompt}\n\nIMPORTANT: Strict mode is enabled. Output ONLY JSON tool call objects, one per action, with no extra text.` : userPrompt));
-        if (!response) throw new Error('No response from model');
+          if (proc.done) {
+            finished = true;
+            addLog('thought', `Model signalled done${proc.summary ? `: ${proc.summary}` : ''}`);
+            break;
+          }
+          // A reply without tool calls is the model's final answer for this attempt
+          if (proc.results.length === 0) break;
 
-        setAgentState(prev => ({ ...prev, status: 'testing' }));
-        addLog('action', 'Analyzing response and extracting implementation details...');
-        const proc = await processAgentResponse(response, { strictMode });
-        if (!proc.ok) {
-          addLog('action', `Strict mode: ${proc.message || 'Expected JSON tool calls only.'}`);
+          if (proc.native) {
+            for (const r of proc.results) {
+              messages.push({ role: 'tool', toolCallId: r.callId, name: r.tool, content: truncate(r.output || '(no output)', MAX_TOOL_OUTPUT_CHARS), isError: !r.ok });
+            }
+          } else {
+            messages.push({ role: 'user', content: formatToolResults(proc.results) });
+          }
+        }
+
+        if (!finished && step >= maxSteps) {
+          addLog('action', `Step budget reached (${maxSteps} model calls) without a done signal.`);
+        }
+        addLog('thought', `Attempt ${attempt} usage: ${attemptTotals.calls} call(s), ${formatUsageTotals(attemptTotals)}`);
+        if (strictFailure) {
           if (!autoContinue || attempt >= maxAttempts) break;
-          lastFailureSummary = truncate(`Strict mode: ${proc.message || 'Expected JSON tool calls only.'}`, 4000);
+          lastFailureSummary = truncate(strictFailure, 4000);
           continue;
         }
 
         // Verification step
         if (verifyCmd) {
+          await checkpoint('verifying');
           setAgentState(prev => ({ ...prev, status: 'verifying' }));
           addLog('action', `Verifying with: ${verifyCmd}`);
-          const res = await postJSON('/api/shell', { cmd: verifyCmd, cwd: workspaceFolder });
-          const success = !!res.success;
-          const stdout = res.stdout || '';
-          const stderr = res.stderr || res.error || '';
+          let stdout = '';
+          let stderr = '';
+          let success = false;
+          try {
+            // The user set this command, so it counts as approved for the server's command policy
+            const res = await runShellLive(verifyCmd, undefined, true);
+            ({ stdout, stderr } = res);
+            success = res.exitCode === 0;
+          } catch (e: any) {
+            if (e?.name === 'AbortError') throw e;
+            stderr = e.message;
+          }
           setAgentState(prev => ({ ...prev, lastVerification: { cmd: verifyCmd, success, stdout, stderr } }));
-          if (stdout) addLog('tool', `verify stdout:\n${stdout}`);
-          if (stderr) addLog('tool', `verify stderr:\n${stderr}`);
           // persist attempt entry and stats
-          setAttemptHistory(prev => [...prev, { attempt, timestamp: new Date().toLocaleTimeString(), cmd: verifyCmd, success, stdout: truncate(stdout, 1000), stderr: truncate(stderr, 1000) }]);
+          setAttemptHistory(prev => [...prev, { attempt, timestamp: new Date().toLocaleTimeString(), cmd: verifyCmd, success, stdout: truncate(stdout, 1000), stderr: truncate(stderr, 1000), usage: attemptTotals }]);
           setStats(prev => ({ ...prev, totalAttempts: prev.totalAttempts + 1, totalSuccesses: prev.totalSuccesses + (success ? 1 : 0) }));
           if (success) {
             solved = true;
@@ -296,6 +547,18 @@ Required behavior:
       }
 
     } catch (error) {
+      // A budget trip surfaces either directly from a checkpoint or as the reason of the timer's abort
+      const reason = abortRef.current?.signal.reason;
+      const budgetError = error instanceof BudgetExceededError ? error : reason instanceof BudgetExceededError ? reason : null;
+      if (budgetError) {
+        budgetExhausted = true;
+        addLog('action', `💸 Budget exhausted: ${budgetError.message}. Run stopped.`);
+        return;
+      }
+      if (error?.name === 'AbortError') {
+        addLog('action', '⏹️ Run stopped by user.');
+        return;
+      }
       console.error('Agent execution error:', error);
       addLog('action', `❌ Error: ${error.message}`);
       toast({
@@ -304,19 +567,133 @@ Required behavior:
         variant: "destructive",
       });
     } finally {
+      clearTimeout(budgetTimer);
+      if (runTotals.calls > 0) addLog('thought', `Run usage: ${runTotals.calls} call(s), ${formatUsageTotals(runTotals)}`);
       setAgentState(prev => ({ 
         ...prev, 
-        status: 'idle',
+        status: budgetExhausted ? 'budget_exhausted' : 'idle',
         episode: prev.episode + 1 
       }));
+      abortRef.current = null;
+      resumeRef.current = null;
+      setIsPaused(false);
       setIsRunning(false);
     }
   };
 
-  const postJSON = async (url: string, body: any) => {
-    const res = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+  // Called between model and tool calls: throws if the run was stopped and
+  // blocks while paused, so a resumed run continues with the same loop state.
+  const checkpoint = async (resumeStatus: AgentState['status']) => {
+    if (abortRef.current?.signal.aborted) throw new DOMException('Run stopped', 'AbortError');
+    enforceBudget();
+    if (!pauseRequestedRef.current) return;
+    setAgentState(prev => ({ ...prev, status: 'paused' }));
+    addLog('action', '⏸️ Paused. Waiting for resume...');
+    await new Promise<void>(resolve => { resumeRef.current = resolve; });
+    resumeRef.current = null;
+    if (abortRef.current?.signal.aborted) throw new DOMException('Run stopped', 'AbortError');
+    addLog('action', '▶️ Resumed');
+    setAgentState(prev => ({ ...prev, status: resumeStatus }));
+  };
+
+  const enforceBudget = (opts?: { nextToolCall?: boolean }) => {
+    const exceeded = checkBudget(runBudget, runSpendRef.current, opts);
+    if (exceeded) throw exceeded;
+  };
+
+  // Blocks the loop until the user answers the approval dialog. Stopping the
+  // run (or the time budget) dismisses the dialog and unwinds the loop.
+  const requestApproval = async (call: ValidToolCall, reason: string): Promise<ApprovalResponse> => {
+    const signal = abortRef.current?.signal;
+    const argsText = JSON.stringify(call.args, null, 2);
+    setAgentState(prev => ({ ...prev, status: 'awaiting_approval' }));
+    addLog('action', `✋ Waiting for approval: ${call.tool} (${reason})`);
+    const response = await new Promise<ApprovalResponse>(resolve => {
+      approvalResolveRef.current = resolve;
+      setPendingApproval({ tool: call.tool, reason, argsText, editedText: argsText, rejectReason: '' });
+      signal?.addEventListener('abort', () => resolve({ action: 'reject', reason: 'run stopped' }), { once: true });
+    });
+    approvalResolveRef.current = null;
+    setPendingApproval(null);
+    if (signal?.aborted) throw new DOMException('Run stopped', 'AbortError');
+    setAgentState(prev => ({ ...prev, status: 'testing' }));
+    return response;
+  };
+
+  const approvePending = () => {
+    if (!pendingApproval) return;
+    if (pendingApproval.editedText === pendingApproval.argsText) {
+      approvalResolveRef.current?.({ action: 'approve' });
+      return;
+    }
+    // Edited arguments must still be a valid call; keep the dialog open until they are
+    try {
+      const args = JSON.parse(pendingApproval.editedText);
+      const validation = validateToolCall(pendingApproval.tool, args);
+      if ('error' in validation) throw new Error(validation.error);
+      approvalResolveRef.current?.({ action: 'approve', args });
+    } catch (e: any) {
+      toast({ title: 'Invalid arguments', description: e.message, variant: 'destructive' });
+    }
+  };
+
+  const rejectPending = () => {
+    approvalResolveRef.current?.({ action: 'reject', reason: pendingApproval?.rejectReason.trim() || undefined });
+  };
+
+  const setToolApproval = (tool: ToolName, mode: ApprovalMode) => {
+    setApprovalPolicy(prev => ({ ...prev, tools: { ...prev.tools, [tool]: mode } }));
+  };
+
+  const pauseAgent = () => {
+    pauseRequestedRef.current = true;
+    setIsPaused(true);
+  };
+
+  const resumeAgent = () => {
+    pauseRequestedRef.current = false;
+    setIsPaused(false);
+    resumeRef.current?.();
+  };
+
+  const stopAgent = () => {
+    abortRef.current?.abort();
+    // Wake a paused loop so it can observe the abort and unwind
+    resumeRef.current?.();
+  };
+
+  const paramsFor = (providerId: string, modelId: string): ModelParams => ({
+    ...DEFAULT_MODEL_PARAMS,
+    ...modelParams[`${providerId}:${modelId}`],
+  });
+
+  const updateActiveParams = (patch: Partial<ModelParams>) => {
+    if (!activeModel) return;
+    const key = `${activeModel.providerId}:${activeModel.modelId}`;
+    setModelParams(prev => ({ ...prev, [key]: { ...prev[key], ...patch } }));
+  };
+
+  // Fallback when a provider (typically a local server or the mock) omits usage
+  const estimateUsage = (providerId: string, messages: ChatMessage[], reply: LLMReply): TokenUsage => {
+    const system = buildSystemPrompt(resolveProvider(providerId, providerSettings[providerId])?.toolCalling !== 'none');
+    return {
+      promptTokens: estimateTokens(system + JSON.stringify(messages)),
+      completionTokens: estimateTokens(reply.text + JSON.stringify(reply.toolCalls)),
+      estimated: true,
+    };
+  };
+
+  const loadMockScript = async (fixturePath: string) => {
+    if (!fixturePath.trim()) throw new Error('Mock provider needs a script path');
+    const res = await postJSON('/api/files/read', { path: fixturePath, cwd: workspaceFolder });
+    if (!res.success) throw new Error(res.error || `Could not read ${fixturePath}`);
+    return parseMockScript(res.content ?? '');
+  };
+
+  const postJSON = async (url: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<APIResponse> => {
+    const res = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body), signal });
     const data = await res.json().catch(() => ({}));
-    return { status: res.status, ok: res.ok, ...data } as any;
+    return { status: res.status, ok: res.ok, ...data };
   };
 
   const autoDetectVerificationCmd = async (): Promise<string> => {
@@ -336,154 +713,113 @@ Required behavior:
 
   const truncate = (s: string, n: number) => (s.length > n ? s.slice(0, n) + '\n...' : s);
 
-  const updateTrainingProgress = () => {
-    setTrainingProgress(prev => Math.min(prev + 10, 100));
+  const formatToolResults = (results: ToolResult[]) => {
+    const body = results
+      .map((r, i) => `[${i + 1}] ${r.tool} (${r.ok ? 'ok' : 'error'})\n${truncate(r.output || '(no output)', MAX_TOOL_OUTPUT_CHARS)}`)
+      .join('\n\n');
+    return `Tool results:\n${body}\n\nContinue with the next action, or call done when the task is complete.`;
   };
 
-  const callLLMAPI = async (provider: string, modelId: string, userPrompt: string) => {
-    const providerData = providers.find(p => p.id === provider);
-    if (!providerData) throw new Error('Provider not found');
+  // Marks output whose start was dropped, so the agent knows it only sees the tail
+  const withOmitted = (text: string, omitted: number) => (omitted ? `[${omitted} earlier characters omitted]\n${text}` : text);
 
-    const savedApiKey = storedApiKeys[provider];
-    if (!savedApiKey) throw new Error('API key not found for provider');
+  const formatShellResult = (res: ShellResult) =>
+    `${describeExit(res)} after ${(res.durationMs / 1000).toFixed(1)}s${res.timedOut || res.truncated ? ' (output below is partial)' : ''}${res.sandbox?.network === false ? ` (${res.sandbox.backend} sandbox, no network access)` : ''}\nstdout:\n${withOmitted(res.stdout, res.omitted.stdout)}\nstderr:\n${withOmitted(res.stderr, res.omitted.stderr)}`;
 
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
+  // One line per file and hunk, e.g. "  hunk 2: applied at line 40 (offset +3, fuzz 1)"
+  const formatPatchReport = (data: { files: PatchFileReport[] }) => data.files.map(f => {
+    const hunks = (f.hunks || []).map(h => h.applied
+      ? `  hunk ${h.index}: applied at line ${h.line}${h.offset ? ` (offset ${h.offset > 0 ? '+' : ''}${h.offset})` : ''}${h.fuzz ? ` (fuzz ${h.fuzz})` : ''}${h.whitespace ? ' (ignoring whitespace)' : ''}`
+      : `  hunk ${h.index} (@@ -${h.oldStart}): FAILED, ${h.error}`);
+    return [`${f.path} [${f.status}]${f.error ? `: ${f.error}` : ''}`, ...hunks].join('\n');
+  }).join('\n');
 
-    let requestBody: any = {};
-    let endpoint = '';
-
-    switch (provider) {
-      case 'OPENROUTER_API_KEY':
-        endpoint = `${providerData.baseUrl}/chat/completions`;
-        headers['Authorization'] = `Bearer ${savedApiKey}`;
-        headers['HTTP-Referer'] = window.location.origin;
-        headers['X-Title'] = 'Reflex Coder';
-        requestBody = {
-          model: modelId,
-          messages: [
-            { role: 'system', content: SYSTEM_PROMPT },
-            { role: 'user', content: userPrompt },
-          ],
-          temperature: 0.7,
-          max_tokens: 4000,
-        };
-        break;
-      
-      case 'ANTHROPIC_API_KEY':
-        endpoint = `${providerData.baseUrl}/v1/messages`;
-        headers['Authorization'] = `Bearer ${savedApiKey}`;
-        headers['anthropic-version'] = '2023-06-01';
-        requestBody = {
-          model: modelId,
-          max_tokens: 4000,
-          system: SYSTEM_PROMPT,
-          messages: [{ role: 'user', content: userPrompt }],
-        };
-        break;
-      
-      case 'OPENAI_API_KEY':
-        endpoint = `${providerData.baseUrl}/chat/completions`;
-        headers['Authorization'] = `Bearer ${savedApiKey}`;
-        requestBody = {
-          model: modelId,
-          messages: [
-            { role: 'system', content: SYSTEM_PROMPT },
-            { role: 'user', content: userPrompt },
-          ],
-          temperature: 0.7,
-          max_tokens: 4000,
-        };
-        break;
-      
-      case 'GROQ_API_KEY':
-        endpoint = `${providerData.baseUrl}/chat/completions`;
-        headers['Authorization'] = `Bearer ${savedApiKey}`;
-        requestBody = {
-          model: modelId,
-          messages: [
-            { role: 'system', content: SYSTEM_PROMPT },
-            { role: 'user', content: userPrompt },
-          ],
-          temperature: 0.7,
-          max_tokens: 4000,
-        };
-        break;
-      
-      case 'PERPLEXITY_API_KEY':
-        endpoint = `${providerData.baseUrl}/chat/completions`;
-        headers['Authorization'] = `Bearer ${savedApiKey}`;
-        requestBody = {
-          model: modelId,
-          messages: [
-            { role: 'system', content: SYSTEM_PROMPT },
-            { role: 'user', content: userPrompt },
-          ],
-          temperature: 0.7,
-          max_tokens: 4000,
-        };
-        break;
-      
-      default:
-        throw new Error(`Unsupported provider: ${provider}`);
+  const updateTrainingProgress = () => {
+    setTrainingProgress(prev => Math.min(prev + 10, 100));
+  };
+
+  const callLLMAPI = async (provider: string, modelId: string, messages: ChatMessage[]): Promise<LLMReply> => {
+    if (getProvider(provider)?.mock) {
+      if (!mockResponderRef.current) throw new Error('Mock script not loaded');
+      return mockResponderRef.current(messages);
     }
 
-    const response = await fetch(endpoint, {
+    const savedApiKey = storedApiKeys[provider];
+    if (!savedApiKey && getProvider(provider)?.requiresKey !== false) throw new Error('API key not found for provider');
+
+    const request = buildChatRequest(provider, modelId, savedApiKey || '', messages, {
+      stream: streamResponses,
+      settings: providerSettings[provider],
+      params: paramsFor(provider, modelId),
+    });
+    const response = await fetchProvider(request.endpoint, {
       method: 'POST',
-      headers,
-      body: JSON.stringify(requestBody),
+      signal: abortRef.current?.signal,
+      headers: request.headers,
+      body: JSON.stringify(request.body),
     });
 
     if (!response.ok) {
       const errorData = await response.text();
-      throw new Error(`API request failed: ${response.status} - ${errorData}`);
+      throw new ProviderHTTPError(response.status, errorData, parseRetryAfter(response.headers.get('retry-after')));
+    }
+
+    if (streamResponses) {
+      const logId = startLiveLog('stream');
+      let latest: PartialReply = { text: '', toolCalls: [] };
+      let lastFlush = 0;
+      try {
+        return await streamChatResponse(provider, response, (partial) => {
+          latest = partial;
+          // Throttle re-renders; the final content is flushed once the stream ends
+          const now = Date.now();
+          if (now - lastFlush < 50) return;
+          lastFlush = now;
+          updateLog(logId, { content: renderPartialReply(partial) });
+        });
+      } finally {
+        updateLog(logId, { content: renderPartialReply(latest), streaming: false });
+      }
     }
 
     const data = await response.json();
     
-    // Extract content based on provider response format
-    if (provider === 'ANTHROPIC_API_KEY') {
-      return data.content?.[0]?.text || '';
-    } else {
-      return data.choices?.[0]?.message?.content || '';
-    }
+    // Extract text and native tool calls based on provider response format
+    return parseChatResponse(provider, data);
   };
 
-  const processAgentResponse = async (response: string, opts?: { strictMode?: boolean }): Promise<{ ok: boolean; message?: string }> => {
+  const processAgentResponse = async (reply: LLMReply, opts?: { strictMode?: boolean }): Promise<{ ok: boolean; message?: string; results: ToolResult[]; native?: boolean; done?: boolean; summary?: string }> => {
     addLog('thought', 'Processing model response...');
+    const response = reply.text;
     
     try {
-      // Try to extract tool calls from fenced JSON or inline objects
-      let toolCalls: any[] = [];
-      const fenced = extractCodeBlocks(response);
-      for (const block of fenced) {
-        const content = block.code.trim();
-        if (content.startsWith('{') && content.includes('"tool"')) {
-          try { toolCalls.push(JSON.parse(content)); } catch (_) {}
-        }
-      }
-      if (toolCalls.length === 0) {
-        const inlineMatches = response.match(/\{[\s\S]*?\}/g) || [];
-        for (const m of inlineMatches) {
-          if (m.includes('"tool"')) { try { toolCalls.push(JSON.parse(m)); } catch (_) {} }
-        }
-      }
+      // Prefer native function calls; otherwise scan the text for JSON tool calls (objects, arrays or JSONL)
+      const native = reply.toolCalls.length > 0;
+      const toolCalls: RawToolCall[] = native ? reply.toolCalls.map(c => ({ tool: c.name, ...c.arguments })) : extractToolCalls(response);
 
       if (toolCalls.length > 0) {
-        for (const call of toolCalls) {
-          await executeToolCall(call);
+        const results: ToolResult[] = [];
+        for (const [i, call] of toolCalls.entries()) {
+          await checkpoint('testing');
+          // done ends the turn; calls after it are ignored
+          if (call.tool === 'done') {
+            return { ok: true, results, native, done: true, summary: typeof call.summary === 'string' ? call.summary : '' };
+          }
+          enforceBudget({ nextToolCall: true });
+          runSpendRef.current.toolCalls += 1;
+          const result = await executeToolCall(call);
+          results.push(native ? { ...result, callId: reply.toolCalls[i].id } : result);
         }
-        return { ok: true };
+        return { ok: true, results, native };
       } else {
         if (opts?.strictMode) {
-          return { ok: false, message: 'No valid JSON tool calls found.' };
+          return { ok: false, message: 'No valid JSON tool calls found.', results: [] };
         }
         // If no tool calls, treat as code generation
         addLog('thought', 'No tool calls detected, treating as code generation...');
         
         // Extract code blocks from response
-        const codeBlocks = fenced;
+        const codeBlocks = extractCodeBlocks(response);
         
         if (codeBlocks.length > 0) {
           const generatedFiles: {filename: string, content: string}[] = [];
@@ -505,181 +841,521 @@ Required behavior:
           // Just show the response as a thought
           addLog('thought', `Model response: ${response.substring(0, 500)}${response.length > 500 ? '...' : ''}`);
         }
-        return { ok: true };
+        return { ok: true, results: [] };
       }
     } catch (error) {
+      // Stops and budget trips end the run rather than counting as a bad response
+      if (error?.name === 'AbortError' || error instanceof BudgetExceededError) throw error;
       addLog('action', `❌ Error processing response: ${error.message}`);
-      return { ok: false, message: error.message };
+      return { ok: false, message: error.message, results: [] };
     }
   };
 
-  const executeToolCall = async (toolCall: any) => {
-    const { tool, ...params } = toolCall;
-    
+  const executeToolCall = async (toolCall: RawToolCall): Promise<ToolResult> => {
+    const { tool, ...rawArgs } = toolCall;
+    const result = (ok: boolean, output: string): ToolResult => ({ tool: String(tool), ok, output });
+
+    // Malformed calls go back to the model as an error result instead of running (or silently doing nothing)
+    const validation = validateToolCall(tool, rawArgs);
+    if ('error' in validation) {
+      addLog('action', `⚠️ Rejected tool call: ${validation.error}`);
+      return result(false, validation.error);
+    }
+    let call = validation.call;
+
+    let decision = evaluateApproval(approvalPolicy, call);
+    if (decision.mode === 'deny') {
+      addLog('action', `⛔ Denied by policy: ${tool} (${decision.reason})`);
+      return result(false, `${tool} was denied by the approval policy (${decision.reason}). Do not retry it; take another approach or explain in done what the user needs to do.`);
+    }
+    // The server decides shell commands too; check now so its "ask" goes through the dialog.
+    // If the check itself fails, the server still enforces the policy when the command runs.
+    const cmd = shellCommandOf(call);
+    const verdict = cmd === undefined ? null : await checkCommandPolicy(cmd, abortRef.current?.signal).catch(() => null);
+    if (verdict?.decision === 'deny') return refuseByCommandPolicy(call.tool, verdict);
+    if (verdict?.decision === 'ask') {
+      const reason = `the command policy flags it (${describeViolations(verdict)})`;
+      decision = { mode: 'ask', reason: decision.mode === 'ask' ? `${decision.reason}; ${reason}` : reason };
+    }
+    let approved = false;
+    if (decision.mode === 'ask') {
+      const response = await requestApproval(call, decision.reason);
+      if (response.action === 'reject') {
+        addLog('action', `🚫 Rejected by user: ${tool}${response.reason ? ` (${response.reason})` : ''}`);
+        return result(false, `The user rejected this ${tool} call${response.reason ? `: ${response.reason}` : ''}. Do not retry it unchanged; adjust your approach.`);
+      }
+      if (response.args) {
+        const edited = validateToolCall(call.tool, response.args);
+        if ('error' in edited) return result(false, edited.error);
+        call = edited.call;
+        addLog('action', `✏️ Approved with edits: ${tool}`);
+        const outcome = await runTool(call, true);
+        return { ...outcome, output: `The user edited the arguments before approving: ${JSON.stringify(call.args)}\n${outcome.output}` };
+      }
+      addLog('action', `✅ Approved: ${tool}`);
+      approved = true;
+    }
+
+    return runTool(call, approved);
+  };
+
+  const refuseByCommandPolicy = (tool: ToolName, verdict: CommandPolicyVerdict): ToolResult => {
+    addLog('action', `⛔ ${tool} refused by the command policy (${verdict.decision}): ${describeViolations(verdict)}`);
+    return { tool, ok: false, output: formatPolicyRefusal(verdict) };
+  };
+
+  // approved: the user approved this call, which satisfies the server command policy's "ask"
+  const runTool = async (call: ValidToolCall, approved = false): Promise<ToolResult> => {
+    const { tool } = call;
+    const result = (ok: boolean, output: string): ToolResult => ({ tool, ok, output });
+
     addLog('action', `🛠️ Executing: ${tool}`);
     
-    switch (tool) {
+    switch (call.tool) {
       case 'write_file':
-        if (params.path && params.content) {
-          try {
-            // Persist to filesystem via dev server API
-            const res = await fetch('/api/files/write', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ path: params.path, content: params.content, overwrite: true, cwd: workspaceFolder })
-            });
-            const data = await res.json();
-            if (!res.ok || !data.success) throw new Error(data.error || 'write failed');
-            addLog('file', `Wrote file: ${params.path}`, undefined, params.content, params.path);
-            setGeneratedFiles(prev => [...prev, { filename: params.path, content: params.content }]);
-            setShowCodePanel(true);
-          } catch (e: any) {
-            addLog('action', `❌ write_file failed: ${e.message}`);
-          }
+        try {
+          // Persist to filesystem via dev server API
+          const res = await fetch('/api/files/write', {
+            method: 'POST',
+            signal: abortRef.current?.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ path: call.args.path, content: call.args.content, overwrite: call.args.overwrite ?? true, cwd: workspaceFolder, expectedHash: fileHashesRef.current[call.args.path] })
+          });
+          const data = await res.json();
+          if (!res.ok || !data.success) throw new Error(data.error || 'write failed');
+          fileHashesRef.current[call.args.path] = data.hash;
+          addLog('file', `Wrote file: ${call.args.path}`, undefined, call.args.content, call.args.path);
+          setGeneratedFiles(prev => [...prev, { filename: call.args.path, content: call.args.content }]);
+          setShowCodePanel(true);
+          return result(true, `Wrote ${call.args.path} (${call.args.content.length} chars)`);
+        } catch (e: any) {
+          addLog('action', `❌ write_file failed: ${e.message}`);
+          return result(false, `write_file failed: ${e.message}`);
+        }
+
+      case 'edit_file':
+        try {
+          const res = await fetch('/api/files/edit', {
+            method: 'POST',
+            signal: abortRef.current?.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...call.args, cwd: workspaceFolder, expectedHash: fileHashesRef.current[call.args.path] })
+          });
+          const data = await res.json();
+          if (!res.ok || !data.success) throw new Error(data.error || 'edit failed');
+          fileHashesRef.current[call.args.path] = data.hash;
+          addLog('file', `Edited file: ${call.args.path} (${data.replacements} replacement(s))`, undefined, call.args.newString, call.args.path);
+          return result(true, `Edited ${call.args.path}: ${data.replacements} replacement(s)`);
+        } catch (e: any) {
+          addLog('action', `❌ edit_file failed: ${e.message}`);
+          return result(false, `edit_file failed on ${call.args.path}: ${e.message}`);
+        }
+
+      case 'apply_patch':
+        try {
+          const res = await fetch('/api/files/patch', {
+            method: 'POST',
+            signal: abortRef.current?.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ patch: call.args.patch, dryRun: call.args.dryRun ?? false, cwd: workspaceFolder })
+          });
+          const data = await res.json();
+          // A rejected patch still carries the per-hunk report
+          if (!data.files) throw new Error(data.error || 'patch failed');
+          if (data.applied) data.files.forEach((f: PatchFileReport) => { delete fileHashesRef.current[f.path]; });
+          const report = formatPatchReport(data);
+          addLog(data.success ? 'file' : 'action', `${data.success ? '🩹' : '❌'} apply_patch${data.dryRun ? ' (dry run)' : ''}:\n${report}`, undefined, call.args.patch, 'patch.diff');
+          return result(!!data.success, `${data.success ? (data.dryRun ? 'Patch applies cleanly (dry run, nothing written)' : 'Patch applied') : data.error}\n${report}`);
+        } catch (e: any) {
+          addLog('action', `❌ apply_patch failed: ${e.message}`);
+          return result(false, `apply_patch failed: ${e.message}`);
         }
-        break;
 
       case 'read_file':
-        if (params.path) {
-          try {
-            const res = await fetch('/api/files/read', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ path: params.path, cwd: workspaceFolder })
-            });
-            const data = await res.json();
-            if (!res.ok || !data.success) throw new Error(data.error || 'read failed');
-            addLog('file', `Read file: ${params.path}`, undefined, data.content, params.path);
-          } catch (e: any) {
-            addLog('action', `❌ read_file failed: ${e.message}`);
+        try {
+          const res = await fetch('/api/files/read', {
+            method: 'POST',
+            signal: abortRef.current?.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              path: call.args.path,
+              cwd: workspaceFolder,
+              offset: call.args.offset,
+              limit: call.args.limit ?? READ_FILE_DEFAULT_LINES,
+              lineNumbers: true,
+              // Cut on a line boundary before the tool-output cap would cut mid-line
+              maxBytes: MAX_TOOL_OUTPUT_CHARS - 500,
+            })
+          });
+          const data = await res.json();
+          if (!res.ok || !data.success) throw new Error(data.error || 'read failed');
+          fileHashesRef.current[call.args.path] = data.hash;
+          if (data.binary) {
+            addLog('file', `Read file: ${call.args.path} (binary, ${data.size} bytes)`);
+            return result(true, `${call.args.path} is a binary file (${data.size} bytes, sha256 ${data.hash.slice(0, 12)}); contents not shown.`);
           }
+          const range = data.totalLines === 0 ? 'empty file' : `lines ${data.startLine}-${data.endLine} of ${data.totalLines}`;
+          const more = data.endLine < data.totalLines
+            ? `\n[${data.truncated ? 'Truncated at the size limit' : 'More lines follow'}; continue with offset ${data.endLine + 1}]`
+            : '';
+          addLog('file', `Read file: ${call.args.path} (${range})`, undefined, data.content, call.args.path);
+          return result(true, `${call.args.path} (${range}, sha256 ${data.hash.slice(0, 12)})\n${data.content}${more}`);
+        } catch (e: any) {
+          addLog('action', `❌ read_file failed: ${e.message}`);
+          return result(false, `read_file failed: ${e.message}`);
         }
-        break;
 
       case 'list_files':
         try {
           const res = await fetch('/api/files/list', {
             method: 'POST',
+            signal: abortRef.current?.signal,
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ cwd: workspaceFolder, path: params.path || '.', maxDepth: params.maxDepth || 2 })
+            body: JSON.stringify({ cwd: workspaceFolder, path: call.args.path || '.', maxDepth: call.args.maxDepth ?? 2 })
           });
           const data = await res.json();
           if (!res.ok || !data.success) throw new Error(data.error || 'list failed');
           const listing = (data.files || []).map((f: any) => `${f.type}: ${f.path}`).join('\n');
           addLog('tool', `Listed files (base: ${workspaceFolder}):\n${listing}`);
+          return result(true, listing || '(empty directory)');
         } catch (e: any) {
           addLog('action', `❌ list_files failed: ${e.message}`);
+          return result(false, `list_files failed: ${e.message}`);
+        }
+
+      case 'glob':
+        try {
+          const res = await fetch('/api/files/glob', {
+            method: 'POST',
+            signal: abortRef.current?.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...call.args, cwd: workspaceFolder })
+          });
+          const data = await res.json();
+          if (!res.ok || !data.success) throw new Error(data.error || 'glob failed');
+          const listing = data.files.join('\n') + (data.truncated ? `\n... ${data.total - data.files.length} more` : '');
+          addLog('tool', `Glob ${call.args.pattern}: ${data.total} file(s)`);
+          return result(true, listing || `No files match ${call.args.pattern}`);
+        } catch (e: any) {
+          addLog('action', `❌ glob failed: ${e.message}`);
+          return result(false, `glob failed: ${e.message}`);
+        }
+
+      case 'grep':
+        try {
+          const res = await fetch('/api/files/search', {
+            method: 'POST',
+            signal: abortRef.current?.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...call.args, cwd: workspaceFolder })
+          });
+          const data = await res.json();
+          if (!res.ok || !data.success) throw new Error(data.error || 'search failed');
+          // ripgrep-style: "path:line:" for matches, "path-line-" for context
+          const output = data.results.map((r: any) => r.matches.map((m: any) => m.context
+            .map((c: any) => `${r.file}${c.isMatch ? ':' : '-'}${c.lineNumber}${c.isMatch ? ':' : '-'}${c.content}`)
+            .join('\n')).join('\n--\n')).join('\n--\n');
+          addLog('tool', `Grep ${call.args.pattern}: ${data.totalMatches} match(es) in ${data.results.length} file(s)`);
+          return result(true, output
+            ? `${output}${data.truncated ? `\n... results capped at ${data.totalMatches}; narrow the pattern or include glob` : ''}`
+            : `No matches for ${call.args.pattern}`);
+        } catch (e: any) {
+          addLog('action', `❌ grep failed: ${e.message}`);
+          return result(false, `grep failed: ${e.message}`);
         }
-        break;
 
       case 'delete_path':
-        if (params.path) {
-          try {
-            const res = await fetch('/api/files/delete', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ path: params.path, cwd: workspaceFolder, recursive: params.recursive ?? true })
-            });
-            const data = await res.json();
-            if (!res.ok || !data.success) throw new Error(data.error || 'delete failed');
-            addLog('action', `🗑️ Deleted: ${params.path}`);
-          } catch (e: any) {
-            addLog('action', `❌ delete_path failed: ${e.message}`);
-          }
+        try {
+          const res = await fetch('/api/files/delete', {
+            method: 'POST',
+            signal: abortRef.current?.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ path: call.args.path, cwd: workspaceFolder, recursive: call.args.recursive ?? true })
+          });
+          const data = await res.json();
+          if (!res.ok || !data.success) throw new Error(data.error || 'delete failed');
+          delete fileHashesRef.current[call.args.path];
+          addLog('action', `🗑️ Deleted: ${call.args.path}`);
+          return result(true, `Deleted ${call.args.path}`);
+        } catch (e: any) {
+          addLog('action', `❌ delete_path failed: ${e.message}`);
+          return result(false, `delete_path failed: ${e.message}`);
         }
-        break;
 
       case 'move_path':
-        if (params.from && params.to) {
-          try {
-            const res = await fetch('/api/files/move', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ from: params.from, to: params.to, cwd: workspaceFolder, overwrite: params.overwrite ?? true })
-            });
-            const data = await res.json();
-            if (!res.ok || !data.success) throw new Error(data.error || 'move failed');
-            addLog('action', `📦 Moved: ${params.from} -> ${params.to}`);
-          } catch (e: any) {
-            addLog('action', `❌ move_path failed: ${e.message}`);
-          }
+        try {
+          const res = await fetch('/api/files/move', {
+            method: 'POST',
+            signal: abortRef.current?.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ from: call.args.from, to: call.args.to, cwd: workspaceFolder, overwrite: call.args.overwrite ?? true })
+          });
+          const data = await res.json();
+          if (!res.ok || !data.success) throw new Error(data.error || 'move failed');
+          delete fileHashesRef.current[call.args.from];
+          delete fileHashesRef.current[call.args.to];
+          addLog('action', `📦 Moved: ${call.args.from} -> ${call.args.to}`);
+          return result(true, `Moved ${call.args.from} -> ${call.args.to}`);
+        } catch (e: any) {
+          addLog('action', `❌ move_path failed: ${e.message}`);
+          return result(false, `move_path failed: ${e.message}`);
         }
-        break;
 
       case 'make_dir':
-        if (params.path) {
-          try {
-            const res = await fetch('/api/files/mkdir', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ path: params.path, cwd: workspaceFolder, recursive: params.recursive ?? true })
-            });
-            const data = await res.json();
-            if (!res.ok || !data.success) throw new Error(data.error || 'mkdir failed');
-            addLog('action', `📁 Created directory: ${params.path}`);
-          } catch (e: any) {
-            addLog('action', `❌ make_dir failed: ${e.message}`);
-          }
+        try {
+          const res = await fetch('/api/files/mkdir', {
+            method: 'POST',
+            signal: abortRef.current?.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ path: call.args.path, cwd: workspaceFolder, recursive: call.args.recursive ?? true })
+          });
+          const data = await res.json();
+          if (!res.ok || !data.success) throw new Error(data.error || 'mkdir failed');
+          addLog('action', `📁 Created directory: ${call.args.path}`);
+          return result(true, `Created directory ${call.args.path}`);
+        } catch (e: any) {
+          addLog('action', `❌ make_dir failed: ${e.message}`);
+          return result(false, `make_dir failed: ${e.message}`);
         }
-        break;
       
       case 'run_shell':
-        if (params.cmd) {
-          addLog('action', `Running command: ${params.cmd}`);
-          try {
-            const res = await fetch('/api/shell', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ cmd: params.cmd, cwd: workspaceFolder })
-            });
-            const data = await res.json();
-            if (!res.ok || !data.success) throw new Error(data.error || 'shell failed');
-            if (data.stdout) addLog('tool', `stdout:\n${data.stdout}`);
-            if (data.stderr) addLog('tool', `stderr:\n${data.stderr}`);
-          } catch (e: any) {
-            addLog('action', `❌ run_shell failed: ${e.message}`);
-          }
+        addLog('action', `Running command: ${call.args.cmd}`);
+        try {
+          const res = await runShellLive(call.args.cmd, call.args.timeoutSeconds, approved);
+          return result(res.exitCode === 0, formatShellResult(res));
+        } catch (e: any) {
+          if (e instanceof CommandPolicyError) return refuseByCommandPolicy(call.tool, e.verdict);
+          addLog('action', `❌ run_shell failed: ${e.message}`);
+          return result(false, `run_shell failed: ${e.message}`);
         }
-        break;
 
       case 'test_runner':
         try {
-          const cmd = params.cmd || 'npm test --silent';
+          const cmd = call.args.cmd || 'npm test --silent';
           addLog('action', `Running tests: ${cmd}`);
-          const res = await fetch('/api/shell', {
+          const res = await runShellLive(cmd, call.args.timeoutSeconds, approved);
+          return result(res.exitCode === 0, formatShellResult(res));
+        } catch (e: any) {
+          if (e instanceof CommandPolicyError) return refuseByCommandPolicy(call.tool, e.verdict);
+          addLog('action', `❌ test_runner failed: ${e.message}`);
+          return result(false, `test_runner failed: ${e.message}`);
+        }
+      
+      case 'start_process':
+        addLog('action', `Starting background process: ${call.args.cmd}`);
+        try {
+          const res = await fetch('/api/processes/start', {
             method: 'POST',
+            signal: abortRef.current?.signal,
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ cmd, cwd: workspaceFolder })
+            body: JSON.stringify({ cmd: call.args.cmd, name: call.args.name, cwd: workspaceFolder, waitMs: call.args.waitSeconds && call.args.waitSeconds * 1000, approved, sandbox: executionSettings[workspaceFolder] })
           });
           const data = await res.json();
-          if (!res.ok || !data.success) throw new Error(data.error || 'tests failed');
-          if (data.stdout) addLog('tool', `test stdout:\n${data.stdout}`);
-          if (data.stderr) addLog('tool', `test stderr:\n${data.stderr}`);
+          if (data.policy) return refuseByCommandPolicy(call.tool, data.policy);
+          if (!res.ok || !data.success) throw new Error(data.error || 'start failed');
+          const proc: ProcessInfo = data.process;
+          processCursorsRef.current[proc.id] = proc.cursor;
+          refreshProcesses();
+          addLog('tool', `⚙️ ${formatProcessInfo(proc)}`);
+          return result(proc.status === 'running', `${formatProcessInfo(proc)}\nOutput so far:\n${data.output || '(none)'}`);
         } catch (e: any) {
-          addLog('action', `❌ test_runner failed: ${e.message}`);
+          addLog('action', `❌ start_process failed: ${e.message}`);
+          return result(false, `start_process failed: ${e.message}`);
         }
-        break;
-      
-      case 'git_commit':
-        if (params.msg) {
-          try {
-            const res = await fetch('/api/git/commit', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ msg: params.msg, cwd: workspaceFolder })
-            });
-            const data = await res.json();
-            if (!res.ok || !data.success) throw new Error(data.error || 'commit failed');
-            addLog('action', `Git commit: ${params.msg}`);
-            addLog('tool', `✅ Committed: ${data.commit || params.msg}`);
-          } catch (e: any) {
-            addLog('action', `❌ git_commit failed: ${e.message}`);
+
+      case 'read_process_output':
+        try {
+          // Without tailLines, continue from where the agent last read
+          const since = call.args.tailLines ? undefined : processCursorsRef.current[call.args.id] ?? 0;
+          const res = await fetch('/api/processes/output', {
+            method: 'POST',
+            signal: abortRef.current?.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ id: call.args.id, since, tailLines: call.args.tailLines, maxChars: MAX_TOOL_OUTPUT_CHARS - 1000 })
+          });
+          const data = await res.json();
+          if (!res.ok || !data.success) throw new Error(data.error || 'read failed');
+          processCursorsRef.current[call.args.id] = data.cursor;
+          const skipped = data.missed ? `(${data.missed} earlier characters not shown)\n` : '';
+          addLog('tool', `Read ${data.output.length} characters of ${call.args.id} output`);
+          return result(true, `${formatProcessInfo(data.process)}\n${skipped}${data.output || (since === undefined ? '(no output)' : '(no new output)')}`);
+        } catch (e: any) {
+          addLog('action', `❌ read_process_output failed: ${e.message}`);
+          return result(false, `read_process_output failed: ${e.message}`);
+        }
+
+      case 'send_process_input':
+        try {
+          const input = call.args.newline === false ? call.args.input : `${call.args.input}\n`;
+          const res = await fetch('/api/processes/input', {
+            method: 'POST',
+            signal: abortRef.current?.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ id: call.args.id, input, eof: call.args.eof, approved })
+          });
+          const data = await res.json();
+          if (data.policy) return refuseByCommandPolicy(call.tool, data.policy);
+          if (!res.ok || !data.success) throw new Error(data.error || 'input failed');
+          addLog('action', `Sent input to ${call.args.id}: ${call.args.input}`);
+          return result(true, `Sent ${input.length} characters to ${call.args.id}${call.args.eof ? ' and closed its stdin' : ''}. Use read_process_output to see the response.`);
+        } catch (e: any) {
+          addLog('action', `❌ send_process_input failed: ${e.message}`);
+          return result(false, `send_process_input failed: ${e.message}`);
+        }
+
+      case 'stop_process':
+        try {
+          const res = await fetch('/api/processes/stop', {
+            method: 'POST',
+            signal: abortRef.current?.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ id: call.args.id })
+          });
+          const data = await res.json();
+          if (!res.ok || !data.success) throw new Error(data.error || 'stop failed');
+          delete processCursorsRef.current[call.args.id];
+          refreshProcesses();
+          addLog('action', `Stopped ${formatProcessInfo(data.process)}`);
+          return result(true, formatProcessInfo(data.process));
+        } catch (e: any) {
+          addLog('action', `❌ stop_process failed: ${e.message}`);
+          return result(false, `stop_process failed: ${e.message}`);
+        }
+
+      case 'git_status':
+        try {
+          const res = await fetch('/api/git/status', {
+            method: 'POST',
+            signal: abortRef.current?.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ cwd: workspaceFolder })
+          });
+          const data = await res.json();
+          if (!res.ok || !data.success) throw new Error(data.error || 'status failed');
+          addLog('tool', `Git status: ${data.branch || '(detached)'}, ${data.files.length} changed file(s)`);
+          return result(true, formatGitStatus(data));
+        } catch (e: any) {
+          addLog('action', `❌ git_status failed: ${e.message}`);
+          return result(false, `git_status failed: ${e.message}`);
+        }
+
+      case 'git_diff':
+        try {
+          const res = await fetch('/api/git/diff', {
+            method: 'POST',
+            signal: abortRef.current?.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...call.args, cwd: workspaceFolder })
+          });
+          const data = await res.json();
+          if (!res.ok || !data.success) throw new Error(data.error || 'diff failed');
+          addLog('tool', `Git diff${call.args.staged ? ' (staged)' : ''}: ${data.files.length} file(s)`);
+          return result(true, formatGitDiff(data.files, data.diff));
+        } catch (e: any) {
+          addLog('action', `❌ git_diff failed: ${e.message}`);
+          return result(false, `git_diff failed: ${e.message}`);
+        }
+
+      case 'git_log':
+        try {
+          const res = await fetch('/api/git/log', {
+            method: 'POST',
+            signal: abortRef.current?.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...call.args, cwd: workspaceFolder })
+          });
+          const data = await res.json();
+          if (!res.ok || !data.success) throw new Error(data.error || 'log failed');
+          addLog('tool', `Git log: ${data.commits.length} commit(s)`);
+          return result(true, formatGitLog(data.commits));
+        } catch (e: any) {
+          addLog('action', `❌ git_log failed: ${e.message}`);
+          return result(false, `git_log failed: ${e.message}`);
+        }
+
+      case 'git_branch':
+        try {
+          const res = await fetch('/api/git/branch', {
+            method: 'POST',
+            signal: abortRef.current?.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...call.args, cwd: workspaceFolder })
+          });
+          const data = await res.json();
+          if (!res.ok || !data.success) throw new Error(data.error || 'branch failed');
+          if (call.args.name) addLog('action', `🌿 ${call.args.delete ? 'Deleted' : 'Created'} branch ${call.args.name}`);
+          return result(true, formatGitBranches(data.branches));
+        } catch (e: any) {
+          addLog('action', `❌ git_branch failed: ${e.message}`);
+          return result(false, `git_branch failed: ${e.message}`);
+        }
+
+      case 'git_checkout':
+        try {
+          const res = await fetch('/api/git/checkout', {
+            method: 'POST',
+            signal: abortRef.current?.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...call.args, cwd: workspaceFolder })
+          });
+          const data = await res.json();
+          if (!res.ok || !data.success) throw new Error(data.error || 'checkout failed');
+          // Switching branches or restoring paths changes files behind the agent's back
+          fileHashesRef.current = {};
+          const summary = call.args.paths?.length
+            ? `Restored ${call.args.paths.join(', ')}${call.args.ref ? ` from ${call.args.ref}` : ''}`
+            : `Switched to ${data.head}`;
+          addLog('action', `🌿 ${summary}`);
+          return result(true, summary);
+        } catch (e: any) {
+          addLog('action', `❌ git_checkout failed: ${e.message}`);
+          return result(false, `git_checkout failed: ${e.message}`);
+        }
+
+      case 'git_stash':
+        try {
+          const res = await fetch('/api/git/stash', {
+            method: 'POST',
+            signal: abortRef.current?.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...call.args, cwd: workspaceFolder })
+          });
+          const data = await res.json();
+          if (!res.ok || !data.success) throw new Error(data.error || 'stash failed');
+          const action = call.args.action || 'push';
+          if (action !== 'list') {
+            fileHashesRef.current = {};
+            addLog('action', `📦 git stash ${action}${data.output ? `: ${data.output.split('\n')[0]}` : ''}`);
           }
+          return result(true, [data.output, formatGitStashes(data.stashes)].filter(Boolean).join('\n\n'));
+        } catch (e: any) {
+          addLog('action', `❌ git_stash failed: ${e.message}`);
+          return result(false, `git_stash failed: ${e.message}`);
+        }
+
+      case 'git_commit':
+        try {
+          const res = await fetch('/api/git/commit', {
+            method: 'POST',
+            signal: abortRef.current?.signal,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ msg: call.args.msg, paths: call.args.paths, cwd: workspaceFolder })
+          });
+          const data = await res.json();
+          if (!res.ok || !data.success) throw new Error(data.error || 'commit failed');
+          const scope = call.args.paths?.length ? ` (${call.args.paths.join(', ')})` : '';
+          addLog('action', `Git commit: ${call.args.msg}${scope}`);
+          addLog('tool', `✅ Committed ${data.hash}: ${data.commit || call.args.msg}`);
+          return result(true, `Committed ${data.hash}: ${data.commit || call.args.msg}${scope}`);
+        } catch (e: any) {
+          addLog('action', `❌ git_commit failed: ${e.message}`);
+          return result(false, `git_commit failed: ${e.message}`);
         }
-        break;
       
       default:
-        addLog('action', `⚠️ Unknown tool: ${tool}`);
+        // Only done reaches here; it ends the turn before any tool runs
+        addLog('action', `⚠️ ${tool} cannot be executed`);
+        return result(false, `${tool} cannot be executed`);
     }
   };
 
@@ -698,6 +1374,61 @@ Required behavior:
     return blocks;
   };
 
+  const startLiveLog = (type: LogEntry['type'], fields?: Partial<LogEntry>) => {
+    const id = `live-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    setLogs(prev => [...prev, { id, timestamp: new Date().toLocaleTimeString(), type, content: '', streaming: true, ...fields }]);
+    return id;
+  };
+
+  const refreshProcesses = () => fetchProcesses().then(setProcesses).catch(() => {});
+
+  // Stops a background process from the Processes panel; remove also drops an exited one from the list
+  const stopProcess = async (id: string, remove = false) => {
+    try {
+      const res = await fetch('/api/processes/stop', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, remove })
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) throw new Error(data.error || 'stop failed');
+    } catch (e: any) {
+      toast({ title: 'Could not stop process', description: e.message, variant: 'destructive' });
+    }
+    refreshProcesses();
+  };
+
+  // Runs a command through the streaming shell endpoint, rendering its output
+  // in a live terminal entry of the activity log as it arrives
+  const runShellLive = async (cmd: string, timeoutSeconds?: number, approved = false): Promise<ShellResult> => {
+    const logId = startLiveLog('terminal', { command: cmd });
+    let output = '';
+    let lastFlush = 0;
+    try {
+      const res = await runShellStream({ cmd, cwd: workspaceFolder, timeoutMs: timeoutSeconds && timeoutSeconds * 1000, approved, sandbox: executionSettings[workspaceFolder] }, {
+        signal: abortRef.current?.signal,
+        onOutput: (_stream, chunk) => {
+          output = (output + chunk).slice(-TERMINAL_LOG_CHARS);
+          const now = Date.now();
+          if (now - lastFlush < 50) return;
+          lastFlush = now;
+          updateLog(logId, { content: output });
+        },
+      });
+      updateLog(logId, { exitStatus: `${describeExit(res)} · ${(res.durationMs / 1000).toFixed(1)}s` });
+      return res;
+    } catch (e: any) {
+      updateLog(logId, { exitStatus: e?.name === 'AbortError' ? 'stopped' : `failed: ${e.message}` });
+      throw e;
+    } finally {
+      updateLog(logId, { content: output, streaming: false });
+    }
+  };
+
+  const updateLog = (id: string, patch: Partial<LogEntry>) => {
+    setLogs(prev => prev.map(l => (l.id === id ? { ...l, ...patch } : l)));
+  };
+
   const addLog = (type: LogEntry['type'], content: string, reward?: number, code?: string, filename?: string) => {
     setLogs(prev => [...prev, {
       timestamp: new Date().toLocaleTimeString(),
@@ -709,10 +1440,10 @@ Required behavior:
     }]);
   };
 
-  const fetchAvailableModels = async (provider: string, key: string) => {
+  const fetchAvailableModels = async (provider: string, key: string, settings?: ProviderSettings) => {
     setLoadingModels(true);
     try {
-      const providerData = providers.find(p => p.id === provider);
+      const providerData = PROVIDERS.find(p => p.id === provider);
       if (!providerData) return;
 
       let models: any[] = [];
@@ -722,7 +1453,13 @@ Required behavior:
           headers: { 'Authorization': `Bearer ${key}` }
         });
         const data = await response.json();
-        models = data.data?.map((m: any) => ({ id: m.id, name: m.name || m.id })) || [];
+        // OpenRouter publishes per-token prices and context sizes; keep them for usage accounting
+        models = data.data?.map((m: any) => ({
+          id: m.id,
+          name: m.name || m.id,
+          contextLength: m.context_length,
+          price: m.pricing ? { input: Number(m.pricing.prompt) * 1_000_000, output: Number(m.pricing.completion) * 1_000_000 } : undefined,
+        })) || [];
       } else if (provider === 'OPENAI_API_KEY') {
         // OpenAI known models (API doesn't expose models endpoint publicly)
         models = [
@@ -750,11 +1487,29 @@ Required behavior:
           { id: 'llama-3.1-sonar-large-128k-online', name: 'Llama 3.1 Sonar Large (70B)' },
           { id: 'llama-3.1-sonar-huge-128k-online', name: 'Llama 3.1 Sonar Huge (405B)' },
         ];
+      } else if (providerData.customBaseUrl) {
+        // OpenAI-compatible servers (Ollama, llama.cpp, LM Studio, HF router, TGI) list models at /v1/models
+        const baseUrl = resolveProvider(provider, settings)?.baseUrl;
+        const response = await fetch(`${baseUrl}/models`, {
+          headers: key ? { 'Authorization': `Bearer ${key}` } : {}
+        });
+        if (!response.ok) throw new Error(`Model listing failed: ${response.status}`);
+        const data = await response.json();
+        models = data.data?.map((m: any) => ({ id: m.id, name: m.id })) || [];
+      } else if (provider === 'MOCK_PROVIDER') {
+        models = [{ id: 'scripted', name: 'Scripted replay' }];
       }
 
       setAvailableModels(prev => ({ ...prev, [provider]: models }));
       if (models.length > 0) {
-        setSelectedModels(prev => ({ ...prev, [provider]: models[0].id }));
+        // Keep a persisted active choice when the provider is re-configured
+        const preferred = activeModel?.providerId === provider && models.some(m => m.id === activeModel.modelId)
+          ? activeModel.modelId
+          : models[0].id;
+        setSelectedModels(prev => ({ ...prev, [provider]: preferred }));
+        if (!activeModel || !availableModels[activeModel.providerId] && activeModel.providerId !== provider) {
+          setActiveModel({ providerId: provider, modelId: preferred });
+        }
       }
     } catch (error) {
       toast({
@@ -767,26 +1522,56 @@ Required behavior:
     }
   };
 
+  // Choosing a custom endpoint prefills its settings from the last saved values or the provider defaults
+  const handleSelectProvider = (providerId: string) => {
+    setSelectedProvider(providerId);
+    const provider = getProvider(providerId);
+    if (!provider?.customBaseUrl) return;
+    const saved = providerSettings[providerId];
+    setCustomBaseUrl(saved?.baseUrl || provider.baseUrl);
+    setCustomNativeTools((saved?.toolCalling ?? provider.toolCalling) !== 'none');
+  };
+
   const handleSaveApiKey = async () => {
-    if (!selectedProvider || !apiKey.trim()) {
+    const providerInfo = getProvider(selectedProvider);
+    if (!selectedProvider || (providerInfo?.requiresKey !== false && !apiKey.trim()) || (providerInfo?.customBaseUrl && !customBaseUrl.trim())) {
       toast({
         title: "Missing Information",
-        description: "Please select a provider and enter an API key.",
+        description: providerInfo?.customBaseUrl ? "Please enter the server base URL." : "Please select a provider and enter an API key.",
         variant: "destructive",
       });
       return;
     }
 
+    if (providerInfo?.mock) {
+      // Validate the script up front; it is re-read at the start of every run
+      try {
+        const script = await loadMockScript(mockFixturePath);
+        toast({ title: 'Mock script OK', description: `${script.rules.length} rule(s), ${script.replies.length} scripted replies` });
+      } catch (e: any) {
+        toast({ title: 'Invalid mock script', description: e.message, variant: 'destructive' });
+        return;
+      }
+    }
+
     try {
       // Store the API key
-      setStoredApiKeys(prev => ({ ...prev, [selectedProvider]: apiKey }));
+      setStoredApiKeys(prev => ({ ...prev, [selectedProvider]: apiKey.trim() }));
+
+      let settings: ProviderSettings | undefined;
+      if (providerInfo?.customBaseUrl) {
+        settings = { baseUrl: normalizeBaseUrl(customBaseUrl), toolCalling: customNativeTools ? 'openai' : 'none' };
+      } else if (providerInfo?.mock) {
+        settings = { fixturePath: mockFixturePath.trim() };
+      }
+      if (settings) setProviderSettings(prev => ({ ...prev, [selectedProvider]: settings }));
       
       // Fetch available models
-      await fetchAvailableModels(selectedProvider, apiKey);
+      await fetchAvailableModels(selectedProvider, apiKey.trim(), settings);
       
       toast({
         title: "API Key Saved",
-        description: `${providers.find(p => p.id === selectedProvider)?.name} API key saved and models loaded.`,
+        description: `${PROVIDERS.find(p => p.id === selectedProvider)?.name} API key saved and models loaded.`,
       });
       setApiKey('');
       setSelectedProvider('');
@@ -805,6 +1590,9 @@ Required behavior:
       case 'coding': return <Code className="h-4 w-4 text-primary" />;
       case 'testing': return <TestTube className="h-4 w-4 text-agent-tool" />;
       case 'committing': return <GitCommit className="h-4 w-4 text-agent-success" />;
+      case 'paused': return <Pause className="h-4 w-4 text-muted-foreground" />;
+      case 'awaiting_approval': return <Shield className="h-4 w-4 text-yellow-400" />;
+      case 'budget_exhausted': return <Gauge className="h-4 w-4 text-red-400" />;
       case 'training': return <Zap className="h-4 w-4 text-yellow-400" />;
       default: return <Terminal className="h-4 w-4 text-muted-foreground" />;
     }
@@ -817,20 +1605,52 @@ Required behavior:
       case 'testing': return 'border-agent-tool/50 bg-agent-tool/10';
       case 'committing': return 'border-agent-success/50 bg-agent-success/10';
       case 'training': return 'border-yellow-400/50 bg-yellow-400/10';
+      case 'awaiting_approval': return 'border-yellow-400/50 bg-yellow-400/10';
+      case 'budget_exhausted': return 'border-red-400/50 bg-red-400/10';
     default: return 'border-border bg-card';
   }
 };
 
+// Latest request size against the window; before any call, show the active model's window
+const getContextMeter = () => {
+  const contextWindow = contextUsage?.window ?? (activeModel
+    ? contextWindowFor(activeModel.modelId, availableModels[activeModel.providerId]?.find(m => m.id === activeModel.modelId))
+    : undefined);
+  if (!contextWindow) return { label: '—', percent: 0 };
+  const used = contextUsage?.used ?? 0;
+  return { label: `${formatTokens(used)}/${formatTokens(contextWindow)}`, percent: Math.min(100, (used / contextWindow) * 100) };
+};
+
 const getCurrentModel = () => {
-  // Get the first available selected model
-  const firstProvider = Object.keys(selectedModels)[0];
-  if (firstProvider && selectedModels[firstProvider]) {
-    const providerName = providers.find(p => p.id === firstProvider)?.name;
-    const modelId = selectedModels[firstProvider];
-    const model = availableModels[firstProvider]?.find(m => m.id === modelId);
-    return `${model?.name || modelId} (${providerName})`;
+  if (activeModel) {
+    const providerName = getProvider(activeModel.providerId)?.name;
+    const model = availableModels[activeModel.providerId]?.find(m => m.id === activeModel.modelId);
+    return `${model?.name || activeModel.modelId} (${providerName})`;
   }
-  return 'claude-sonnet-4';
+  return 'No model selected';
+};
+
+// The workspace's execution settings; without saved ones, the server defaults
+const getExecutionSettings = () => executionSettings[workspaceFolder] ?? sandboxBackends?.default ?? DEFAULT_EXECUTION_SETTINGS;
+
+const updateExecutionSettings = (patch: Partial<ExecutionSettings>) => {
+  setExecutionSettings(prev => ({ ...prev, [workspaceFolder]: { ...getExecutionSettings(), ...patch } }));
+};
+
+// "unshare (auto), network off, env scrub", or why the chosen setting cannot run here
+const getSandboxLabel = () => {
+  const settings = getExecutionSettings();
+  if (!sandboxBackends) return describeSandbox(settings);
+  const refused = disallowedReason(settings, sandboxBackends.allowed);
+  if (refused) return `${describeSandbox(settings)}: refused, ${refused}`;
+  const backend = resolveBackend(settings.backend, sandboxBackends.backends, sandboxBackends.allowed.backends);
+  if (!backend) {
+    if (settings.backend !== 'auto') return `${settings.backend} (unavailable)`;
+    return sandboxBackends.allowed.backends.includes('host') ? 'auto: no sandbox available; choose host explicitly' : 'auto: no allowed sandbox available';
+  }
+  // Backends that cannot take the network away always have it
+  const network = !sandboxBackends.backends.find(b => b.name === backend)?.isolation.network || settings.network;
+  return `${backend}${settings.backend === 'auto' ? ' (auto)' : ''}, network ${network ? 'on' : 'off'}, env ${settings.env}`;
 };
 
   return (
@@ -861,7 +1681,7 @@ const getCurrentModel = () => {
           <div className="flex items-center gap-4">
             <div className="flex items-center gap-2">
               {getStatusIcon()}
-              <span className="font-mono text-sm capitalize">{agentState.status}</span>
+              <span className="font-mono text-sm capitalize">{agentState.status.replace('_', ' ')}</span>
             </div>
             <div className="flex-1 flex gap-2">
               <Input
@@ -871,14 +1691,31 @@ const getCurrentModel = () => {
                 className="font-mono bg-terminal/50 border-border"
                 disabled={isRunning}
               />
-              <Button 
-                onClick={runAgent} 
-                disabled={isRunning || !command.trim()}
-                className="px-6"
-              >
-                {isRunning ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
-                {isRunning ? 'Running' : 'Execute'}
-              </Button>
+              {isRunning ? (
+                <>
+                  <Button 
+                    onClick={isPaused ? resumeAgent : pauseAgent}
+                    variant="secondary"
+                    className="px-6"
+                  >
+                    {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                    {isPaused ? 'Resume' : 'Pause'}
+                  </Button>
+                  <Button onClick={stopAgent} variant="destructive" className="px-6">
+                    <Square className="h-4 w-4" />
+                    Stop
+                  </Button>
+                </>
+              ) : (
+                <Button 
+                  onClick={runAgent} 
+                  disabled={!command.trim()}
+                  className="px-6"
+                >
+                  <Play className="h-4 w-4" />
+                  Execute
+                </Button>
+              )}
             </div>
           </div>
         </Card>
@@ -907,11 +1744,33 @@ const getCurrentModel = () => {
                         log.type === 'tool' ? 'bg-agent-tool/20 text-agent-tool' :
                         log.type === 'code' ? 'bg-green-500/20 text-green-400' :
                         log.type === 'file' ? 'bg-blue-500/20 text-blue-400' :
+                        log.type === 'stream' ? 'bg-muted text-muted-foreground' :
+                        log.type === 'terminal' ? 'bg-agent-tool/20 text-agent-tool' :
                         'bg-agent-success/20 text-agent-success'
                       }`}>
                         {log.type === 'file' ? 'FILE' : log.type}
                       </div>
-                      <p className="text-foreground">{log.content}</p>
+                      {log.type === 'terminal' ? (
+                        <div className="bg-terminal/50 rounded border border-border font-mono text-xs">
+                          <div className="flex items-center justify-between px-3 py-1 border-b border-border text-muted-foreground">
+                            <span className="truncate">$ {log.command}</span>
+                            <span className={log.streaming ? 'animate-pulse' : log.exitStatus?.startsWith('exit 0') ? 'text-agent-success' : 'text-red-400'}>
+                              {log.streaming ? 'running' : log.exitStatus}
+                            </span>
+                          </div>
+                          <pre className="whitespace-pre-wrap p-3 max-h-80 overflow-auto text-foreground leading-relaxed">
+                            {log.content}
+                            {log.streaming && <span className="animate-pulse">▍</span>}
+                          </pre>
+                        </div>
+                      ) : log.type === 'stream' ? (
+                        <pre className="whitespace-pre-wrap font-mono text-xs text-foreground leading-relaxed">
+                          {log.content}
+                          {log.streaming && <span className="animate-pulse">▍</span>}
+                        </pre>
+                      ) : (
+                        <p className="text-foreground">{log.content}</p>
+                      )}
                       {log.type === 'file' && log.code && (
                         <div className="mt-2 p-3 bg-terminal/50 rounded border border-border font-mono text-xs text-muted-foreground">
                           <div className="flex items-center justify-between mb-2">
@@ -1126,12 +1985,12 @@ const getCurrentModel = () => {
                   <span>Keys are encrypted and stored securely via Supabase</span>
                 </div>
                 <div className="space-y-3">
-                  <Select value={selectedProvider} onValueChange={setSelectedProvider}>
+                  <Select value={selectedProvider} onValueChange={handleSelectProvider}>
                     <SelectTrigger>
                       <SelectValue placeholder="Select provider" />
                     </SelectTrigger>
                     <SelectContent>
-                      {providers.map((provider) => (
+                      {PROVIDERS.map((provider) => (
                         <SelectItem key={provider.id} value={provider.id}>
                           <div>
                             <div className="font-medium">{provider.name}</div>
@@ -1141,20 +2000,47 @@ const getCurrentModel = () => {
                       ))}
                     </SelectContent>
                   </Select>
+                  {getProvider(selectedProvider)?.mock && (
+                    <Input
+                      placeholder="tools/mock-fixtures/write-and-verify.jsonl"
+                      value={mockFixturePath}
+                      onChange={(e) => setMockFixturePath(e.target.value)}
+                      className="font-mono text-sm"
+                    />
+                  )}
+                  {getProvider(selectedProvider)?.customBaseUrl && (
+                    <>
+                      <Input
+                        placeholder={getProvider(selectedProvider)?.baseUrl}
+                        value={customBaseUrl}
+                        onChange={(e) => setCustomBaseUrl(e.target.value)}
+                        className="font-mono text-sm"
+                      />
+                      <div className="flex items-center gap-2 text-sm">
+                        <input
+                          id="custom-native-tools"
+                          type="checkbox"
+                          checked={customNativeTools}
+                          onChange={(e) => setCustomNativeTools(e.target.checked)}
+                        />
+                        <label htmlFor="custom-native-tools">Server supports native tool calling</label>
+                      </div>
+                    </>
+                  )}
                   <Input
                     type="password"
-                    placeholder="Enter API key..."
+                    placeholder={getProvider(selectedProvider)?.requiresKey === false ? "API key (optional)" : "Enter API key..."}
                     value={apiKey}
                     onChange={(e) => setApiKey(e.target.value)}
                     className="font-mono text-sm"
                   />
                   <Button 
                     onClick={handleSaveApiKey}
-                    disabled={!selectedProvider || !apiKey.trim() || loadingModels}
+                    disabled={!selectedProvider || (getProvider(selectedProvider)?.requiresKey !== false && !apiKey.trim()) || loadingModels}
                     className="w-full"
                     size="sm"
                   >
-                    {loadingModels ? 'Loading Models...' : 'Save API Key'}
+                    {loadingModels ? 'Loading Models...' : getProvider(selectedProvider)?.requiresKey === false ? 'Connect' : 'Save API Key'}
                   </Button>
                 </div>
                 
@@ -1164,14 +2050,51 @@ const getCurrentModel = () => {
                     <Separator />
                     <div className="space-y-2">
                       <h4 className="text-sm font-medium">Model Selection</h4>
+                      <label className="text-xs text-muted-foreground">Active model</label>
+                      <Select
+                        value={activeModel && availableModels[activeModel.providerId] ? activeModel.providerId : ''}
+                        onValueChange={(providerId) => setActiveModel({ providerId, modelId: selectedModels[providerId] })}
+                      >
+                        <SelectTrigger className="h-8 text-xs bg-background border-border">
+                          <SelectValue placeholder="Choose the model runs use" />
+                        </SelectTrigger>
+                        <SelectContent className="bg-background border-border shadow-lg z-50">
+                          {Object.keys(availableModels).filter(p => selectedModels[p]).map((providerId) => (
+                            <SelectItem key={providerId} value={providerId} className="text-xs">
+                              {getProvider(providerId)?.name}: {availableModels[providerId].find(m => m.id === selectedModels[providerId])?.name || selectedModels[providerId]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {activeModel && availableModels[activeModel.providerId] && (
+                        <div className="grid grid-cols-2 gap-2">
+                          <div>
+                            <label className="text-xs text-muted-foreground">Temperature</label>
+                            <Input type="number" min={0} max={2} step={0.1}
+                              value={paramsFor(activeModel.providerId, activeModel.modelId).temperature}
+                              onChange={(e) => updateActiveParams({ temperature: Math.max(0, Math.min(2, Number(e.target.value) || 0)) })}
+                              className="h-8 text-xs"/>
+                          </div>
+                          <div>
+                            <label className="text-xs text-muted-foreground">Max tokens</label>
+                            <Input type="number" min={1} step={256}
+                              value={paramsFor(activeModel.providerId, activeModel.modelId).maxTokens}
+                              onChange={(e) => updateActiveParams({ maxTokens: Math.max(1, Number(e.target.value) || DEFAULT_MODEL_PARAMS.maxTokens) })}
+                              className="h-8 text-xs"/>
+                          </div>
+                        </div>
+                      )}
                       {Object.entries(availableModels).map(([providerId, models]) => {
-                        const provider = providers.find(p => p.id === providerId);
+                        const provider = PROVIDERS.find(p => p.id === providerId);
                         return (
                           <div key={providerId} className="space-y-2">
                             <label className="text-xs text-muted-foreground">{provider?.name}</label>
                             <Select 
                               value={selectedModels[providerId] || ''} 
-                              onValueChange={(value) => setSelectedModels(prev => ({ ...prev, [providerId]: value }))}
+                              onValueChange={(value) => {
+                                setSelectedModels(prev => ({ ...prev, [providerId]: value }));
+                                if (activeModel?.providerId === providerId) setActiveModel({ providerId, modelId: value });
+                              }}
                             >
                               <SelectTrigger className="h-8 text-xs bg-background border-border">
                                 <SelectValue placeholder="Select model" />
@@ -1268,9 +2191,20 @@ const getCurrentModel = () => {
                   <span>Model:</span>
                   <span className="font-mono text-primary text-xs">{getCurrentModel()}</span>
                 </div>
+                <div className="space-y-1">
+                  <div className="flex justify-between">
+                    <span>Context:</span>
+                    <span className="font-mono">{getContextMeter().label}</span>
+                  </div>
+                  <Progress value={getContextMeter().percent} className="h-1.5" />
+                </div>
+                <div className="flex justify-between">
+                  <span>This run:</span>
+                  <span className="font-mono text-xs">{formatUsageTotals(runUsage)}</span>
+                </div>
                 <div className="flex justify-between">
-                  <span>Context:</span>
-                  <span className="font-mono">45k/200k</span>
+                  <span>All runs:</span>
+                  <span className="font-mono text-xs">{formatUsageTotals(cumulativeUsage)}</span>
                 </div>
                 <div className="flex justify-between">
                   <span>Mode:</span>
@@ -1278,7 +2212,7 @@ const getCurrentModel = () => {
                 </div>
                 <div className="flex justify-between">
                   <span>Sandbox:</span>
-                  <span className="font-mono text-agent-tool">docker+firejail</span>
+                  <span className="font-mono text-agent-tool text-xs">{getSandboxLabel()}</span>
                 </div>
                 <div className="flex justify-between">
                   <span>Project:</span>
@@ -1287,6 +2221,41 @@ const getCurrentModel = () => {
               </div>
             </Card>
 
+            {/* Background processes */}
+            <Card className="p-6">
+              <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                <Activity className="h-5 w-5 text-agent-tool" />
+                Processes
+              </h3>
+              <div className="space-y-2">
+                {processes.length === 0 && (
+                  <div className="text-sm text-muted-foreground">No background processes. The agent starts dev servers and watchers with start_process.</div>
+                )}
+                {processes.map((p) => (
+                  <div key={p.id} className="border border-border rounded p-3 text-xs">
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <div className="font-mono truncate" title={p.cmd}>{p.id} · {p.name}</div>
+                      {p.status === 'running'
+                        ? <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => stopProcess(p.id)}>Stop</Button>
+                        : <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => stopProcess(p.id, true)}>Dismiss</Button>}
+                    </div>
+                    <div className="flex flex-wrap gap-x-3 text-muted-foreground">
+                      <span>pid <span className="font-mono">{p.pid ?? '?'}</span></span>
+                      <span className={p.status === 'running' ? 'text-agent-success' : p.exitCode === 0 || p.stopped ? '' : 'text-red-400'}>{describeProcessStatus(p)}</span>
+                      {p.ports.length > 0 && (
+                        <span>ports {p.ports.map(port => (
+                          <a key={port} href={`http://localhost:${port}`} target="_blank" rel="noreferrer" className="font-mono text-primary hover:underline mr-1">{port}</a>
+                        ))}</span>
+                      )}
+                    </div>
+                    {p.tail && (
+                      <pre className="mt-2 whitespace-pre-wrap text-[11px] leading-relaxed text-muted-foreground bg-terminal/30 p-2 rounded max-h-32 overflow-auto">{p.tail}</pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </Card>
+
             {/* Verification & Auto-Continue */}
             <Card className="p-6">
               <h3 className="text-lg font-semibold mb-4">Verification</h3>
@@ -1318,12 +2287,60 @@ const getCurrentModel = () => {
                   />
                   <label htmlFor="strict-mode">Strict mode (JSON tool calls only)</label>
                 </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    id="stream-responses"
+                    type="checkbox"
+                    checked={streamResponses}
+                    onChange={(e) => setStreamResponses(e.target.checked)}
+                  />
+                  <label htmlFor="stream-responses">Stream model output live</label>
+                </div>
                 <div className="flex items-center gap-2">
                   <label className="w-32 text-muted-foreground">Max attempts</label>
                   <Input type="number" min={1} max={10} value={maxAttempts}
                     onChange={(e) => setMaxAttempts(Math.max(1, Math.min(10, Number(e.target.value) || 1)))}
                     className="w-24 text-sm"/>
                 </div>
+                <div className="flex items-center gap-2">
+                  <label className="w-32 text-muted-foreground">Retries</label>
+                  <Input type="number" min={0} max={10} value={retryPolicy.maxRetries}
+                    onChange={(e) => setRetryPolicy(prev => ({ ...prev, maxRetries: Math.max(0, Math.min(10, Number(e.target.value) || 0)) }))}
+                    className="w-24 text-sm"/>
+                  <div className="flex items-center gap-2">
+                    <input
+                      id="failover"
+                      type="checkbox"
+                      checked={failoverEnabled}
+                      onChange={(e) => setFailoverEnabled(e.target.checked)}
+                    />
+                    <label htmlFor="failover">Fail over to other models</label>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <label className="w-32 text-muted-foreground">Max steps</label>
+                  <Input type="number" min={1} max={50} value={maxSteps}
+                    onChange={(e) => setMaxSteps(Math.max(1, Math.min(50, Number(e.target.value) || 1)))}
+                    className="w-24 text-sm"/>
+                </div>
+                <div className="flex items-center gap-2">
+                  <label className="w-32 text-muted-foreground">Run budget</label>
+                  <div className="grid grid-cols-2 gap-2 flex-1">
+                    <Input type="number" min={0} step={10000} value={runBudget.maxTokens} title="Max tokens"
+                      onChange={(e) => setRunBudget(prev => ({ ...prev, maxTokens: Math.max(0, Number(e.target.value) || 0) }))}
+                      className="text-sm" placeholder="Max tokens"/>
+                    <Input type="number" min={0} step={0.1} value={runBudget.maxCost} title="Max cost (USD)"
+                      onChange={(e) => setRunBudget(prev => ({ ...prev, maxCost: Math.max(0, Number(e.target.value) || 0) }))}
+                      className="text-sm" placeholder="Max cost ($)"/>
+                    <Input type="number" min={0} step={60} value={runBudget.maxSeconds} title="Max wall-clock seconds"
+                      onChange={(e) => setRunBudget(prev => ({ ...prev, maxSeconds: Math.max(0, Number(e.target.value) || 0) }))}
+                      className="text-sm" placeholder="Max seconds"/>
+                    <Input type="number" min={0} value={runBudget.maxToolCalls} title="Max tool calls"
+                      onChange={(e) => setRunBudget(prev => ({ ...prev, maxToolCalls: Math.max(0, Math.floor(Number(e.target.value)) || 0) }))}
+                      className="text-sm" placeholder="Max tool calls"/>
+                  </div>
+                </div>
+                <div className="text-xs text-muted-foreground ml-[8.5rem]">Tokens · cost ($) · seconds · tool calls per run. 0 = unlimited.</div>
                 <div className="flex items-center gap-2">
                   <label className="w-32 text-muted-foreground">Verify command</label>
                   <Input value={verificationCmd} onChange={(e) => setVerificationCmd(e.target.value)} placeholder="e.g. npm test --silent" className="font-mono"/>
@@ -1334,6 +2351,49 @@ const getCurrentModel = () => {
                   }}>Detect</Button>
                 </div>
                 <div className="text-xs text-muted-foreground ml-[8.5rem]">Leave blank to disable verification. Use Detect to auto-fill.</div>
+                <div className="flex items-center gap-2">
+                  <label className="w-32 text-muted-foreground">Sandbox</label>
+                  <Select value={getExecutionSettings().backend} onValueChange={(value) => updateExecutionSettings({ backend: value as ExecutionSettings['backend'] })}>
+                    <SelectTrigger className="h-8 text-xs flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto" className="text-xs">auto (most isolated sandbox available, never host)</SelectItem>
+                      {SANDBOX_BACKENDS.map(name => {
+                        const info = sandboxBackends?.backends.find(b => b.name === name);
+                        const allowed = !sandboxBackends || sandboxBackends.allowed.backends.includes(name);
+                        return (
+                          <SelectItem key={name} value={name} disabled={(info && !info.available) || !allowed} className="text-xs">
+                            {name}{info ? ` · ${info.detail}` : ''}
+                          </SelectItem>
+                        );
+                      })}
+                    </SelectContent>
+                  </Select>
+                  <Select value={getExecutionSettings().env} onValueChange={(value) => updateExecutionSettings({ env: value as EnvPolicy })}>
+                    <SelectTrigger className="h-8 text-xs w-28" title="Environment variables commands see">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ENV_POLICIES.map(policy => (
+                        <SelectItem key={policy} value={policy} disabled={sandboxBackends ? !sandboxBackends.allowed.env.includes(policy) : false} className="text-xs">env {policy}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex items-center gap-2">
+                    <input
+                      id="sandbox-network"
+                      type="checkbox"
+                      checked={getExecutionSettings().network}
+                      disabled={sandboxBackends ? !sandboxBackends.allowed.network && !getExecutionSettings().network : false}
+                      onChange={(e) => updateExecutionSettings({ network: e.target.checked })}
+                    />
+                    <label htmlFor="sandbox-network">Network</label>
+                  </div>
+                </div>
+                <div className="text-xs text-muted-foreground ml-[8.5rem]">
+                  Where shell commands, tests, background processes and the verify command run for this workspace: {getSandboxLabel()}. Env scrub drops credential-like variables (*_TOKEN, *_KEY, AWS_*…); minimal keeps only PATH, HOME, locale and the like. Choices with less isolation than the server allows (REFLEX_SANDBOX*) are greyed out.
+                </div>
                 {agentState.lastVerification && (
                   <div className="text-xs text-muted-foreground">
                     <div>Last verify: {agentState.lastVerification.cmd} → {agentState.lastVerification.success ? 'success' : 'failed'}</div>
@@ -1343,11 +2403,69 @@ const getCurrentModel = () => {
                 <div className="flex items-center justify-between text-xs text-muted-foreground">
                   <span>Total attempts: {stats.totalAttempts}</span>
                   <span>Verified successes: {stats.totalSuccesses}</span>
-                  <Button variant="ghost" size="sm" onClick={() => { setStats({ totalAttempts: 0, totalSuccesses: 0 }); setAttemptHistory([]); toast({ title: 'Stats reset' }); }}>Reset stats</Button>
+                  <Button variant="ghost" size="sm" onClick={() => { setStats({ totalAttempts: 0, totalSuccesses: 0 }); setAttemptHistory([]); setCumulativeUsage(EMPTY_USAGE_TOTALS); toast({ title: 'Stats reset' }); }}>Reset stats</Button>
                 </div>
               </div>
             </Card>
 
+            {/* Approval policy */}
+            <Card className="p-6">
+              <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                <Shield className="h-5 w-5 text-yellow-400" />
+                Approvals
+              </h3>
+              <div className="space-y-3 text-sm">
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+                  {TOOL_NAMES.filter(name => name !== 'done').map(name => (
+                    <div key={name} className="flex items-center justify-between gap-2">
+                      <span className="font-mono text-xs">{name}</span>
+                      <Select value={approvalPolicy.tools[name] ?? 'auto'} onValueChange={(mode) => setToolApproval(name, mode as ApprovalMode)}>
+                        <SelectTrigger className="h-7 w-20 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {APPROVAL_MODES.map(mode => <SelectItem key={mode} value={mode}>{mode}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+                <div>
+                  <label className="text-muted-foreground">Command rules</label>
+                  <Textarea
+                    value={commandRulesText}
+                    onChange={(e) => {
+                      setCommandRulesText(e.target.value);
+                      setApprovalPolicy(prev => ({ ...prev, commands: parseCommandRules(e.target.value) }));
+                    }}
+                    rows={6}
+                    className="font-mono text-xs mt-1"
+                  />
+                  <div className="text-xs text-muted-foreground mt-1">
+                    One "auto|ask|deny pattern" per line for run_shell, test_runner and start_process; * is a wildcard and the first match wins over the tool setting. auto never matches chained or piped commands.
+                  </div>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => {
+                  setApprovalPolicy(DEFAULT_APPROVAL_POLICY);
+                  setCommandRulesText(formatCommandRules(DEFAULT_APPROVAL_POLICY.commands));
+                }}>Reset to defaults</Button>
+                {commandPolicyInfo && (
+                  <>
+                    <Separator />
+                    <div>
+                      <label className="text-muted-foreground">Server command policy</label>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        Enforced by the dev server for every shell command and background process, whatever the settings above; deny cannot be overridden and ask opens this approval dialog. {commandPolicyInfo.source ? `Loaded from ${commandPolicyInfo.source}.` : 'Built-in rules; set REFLEX_COMMAND_POLICY to customize.'} Unmatched commands: {commandPolicyInfo.default}.
+                      </div>
+                      <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap text-[11px] leading-relaxed text-muted-foreground bg-terminal/30 p-2 rounded">
+                        {commandPolicyInfo.rules.map(formatPolicyRule).join('\n')}
+                      </pre>
+                    </div>
+                  </>
+                )}
+              </div>
+            </Card>
+
             {/* Results Summary */}
             <Card className="p-6">
               <h3 className="text-lg font-semibold mb-4">Results Summary</h3>
@@ -1362,6 +2480,9 @@ const getCurrentModel = () => {
                       <div className={a.success ? 'text-agent-success' : 'text-red-400'}>{a.success ? 'verified' : 'failed'}</div>
                     </div>
                     <div className="text-muted-foreground">cmd: <span className="font-mono">{a.cmd}</span></div>
+                    {a.usage && (
+                      <div className="text-muted-foreground">usage: <span className="font-mono">{a.usage.calls} call(s), {formatUsageTotals(a.usage)}</span></div>
+                    )}
                     {a.stdout && (
                       <div className="mt-2">
                         <div className="text-muted-foreground">stdout</div>
@@ -1381,6 +2502,39 @@ const getCurrentModel = () => {
           </div>
         </div>
       </div>
+
+      {/* Approval dialog: the run waits here until the user decides */}
+      <Dialog open={!!pendingApproval} onOpenChange={(open) => { if (!open) rejectPending(); }}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Shield className="h-5 w-5 text-yellow-400" />
+              Approve <span className="font-mono">{pendingApproval?.tool}</span>?
+            </DialogTitle>
+            <DialogDescription>
+              Approval required because {pendingApproval?.reason}. Edit the arguments to run a changed call, or reject it with a reason for the agent.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={pendingApproval?.editedText ?? ''}
+            onChange={(e) => setPendingApproval(prev => prev && { ...prev, editedText: e.target.value })}
+            rows={10}
+            className="font-mono text-xs"
+          />
+          <Input
+            value={pendingApproval?.rejectReason ?? ''}
+            onChange={(e) => setPendingApproval(prev => prev && { ...prev, rejectReason: e.target.value })}
+            placeholder="Reason for rejecting (optional, sent to the agent)"
+            className="text-sm"
+          />
+          <DialogFooter>
+            <Button variant="destructive" onClick={rejectPending}>Reject</Button>
+            <Button onClick={approvePending}>
+              {pendingApproval && pendingApproval.editedText !== pendingApproval.argsText ? 'Approve with edits' : 'Approve'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_APPROVAL_POLICY, evaluateApproval } from './approval';
+import type { ValidToolCall } from './tools';
+
+const shell = (cmd: string) => ({ tool: 'run_shell', args: { cmd } }) as ValidToolCall;
+
+describe('evaluateApproval with the default policy', () => {
+  it('asks before running package scripts and tests', () => {
+    expect(evaluateApproval(DEFAULT_APPROVAL_POLICY, shell('npm run build')).mode).toBe('ask');
+    expect(evaluateApproval(DEFAULT_APPROVAL_POLICY, shell('npm test')).mode).toBe('ask');
+    expect(evaluateApproval(DEFAULT_APPROVAL_POLICY, { tool: 'test_runner', args: {} } as ValidToolCall).mode).toBe('ask');
+  });
+
+  it('runs ls and cat without asking, but not commands that merely start with ls', () => {
+    expect(evaluateApproval(DEFAULT_APPROVAL_POLICY, shell('ls')).mode).toBe('auto');
+    expect(evaluateApproval(DEFAULT_APPROVAL_POLICY, shell('ls -la src')).mode).toBe('auto');
+    expect(evaluateApproval(DEFAULT_APPROVAL_POLICY, shell('cat package.json')).mode).toBe('auto');
+    expect(evaluateApproval(DEFAULT_APPROVAL_POLICY, shell('lsof -i')).mode).toBe('ask');
+    expect(evaluateApproval(DEFAULT_APPROVAL_POLICY, shell('lsblk')).mode).toBe('ask');
+  });
+
+  it('never auto-approves chained commands', () => {
+    expect(evaluateApproval(DEFAULT_APPROVAL_POLICY, shell('ls && rm -rf src')).mode).toBe('ask');
+  });
+
+  it('gives command-running tools without a setting the run_shell mode', () => {
+    const policy = { ...DEFAULT_APPROVAL_POLICY, tools: { run_shell: 'deny' as const } };
+    expect(evaluateApproval(policy, { tool: 'start_process', args: { cmd: 'vite' } } as ValidToolCall).mode).toBe('deny');
+  });
+});
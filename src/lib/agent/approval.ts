@@ -0,0 +1,95 @@
+import type { ToolName, ValidToolCall } from './tools';
+
+// Human-in-the-loop gate for tool calls. Every validated call is checked
+// against a policy before it runs: 'auto' runs it, 'ask' blocks the loop
+// until the user approves, edits or rejects it, and 'deny' refuses it
+// outright. The outcome is reported to the model as the call's result.
+
+export type ApprovalMode = 'auto' | 'ask' | 'deny';
+
+export const APPROVAL_MODES: ApprovalMode[] = ['auto', 'ask', 'deny'];
+
+/** Applies to run_shell, test_runner and start_process commands and send_process_input input; `*` matches any run of characters */
+export interface CommandRule {
+  pattern: string;
+  mode: ApprovalMode;
+}
+
+export interface ApprovalPolicy {
+  /** Per-tool mode; unlisted tools that run a command get run_shell's mode, the rest run automatically */
+  tools: Partial<Record<ToolName, ApprovalMode>>;
+  /** Checked in order for shell commands; the first match overrides the tool's mode */
+  commands: CommandRule[];
+}
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = {
+  tools: { delete_path: 'ask', move_path: 'ask', run_shell: 'ask', test_runner: 'ask', start_process: 'ask', send_process_input: 'ask', git_checkout: 'ask' },
+  commands: [
+    { pattern: 'sudo *', mode: 'deny' },
+    // Exact, so `rm -rf ~/.cache` still just asks; the server's command policy denies the other spellings
+    { pattern: 'rm -rf /', mode: 'deny' },
+    { pattern: 'rm -rf ~', mode: 'deny' },
+    // Only commands that run no workspace code: the model can rewrite package.json scripts and
+    // tests, so npm test and npm run ask like any other command (and npx may download a package)
+    { pattern: 'ls', mode: 'auto' },
+    { pattern: 'ls *', mode: 'auto' },
+    { pattern: 'cat *', mode: 'auto' },
+  ],
+};
+
+export interface ApprovalDecision {
+  mode: ApprovalMode;
+  /** Why this mode applies, shown in the dialog and the log */
+  reason: string;
+}
+
+/** What the user chose in the approval dialog */
+export type ApprovalResponse =
+  | { action: 'approve'; args?: Record<string, unknown> }
+  | { action: 'reject'; reason?: string };
+
+// Chaining, pipes, redirection and substitution can smuggle a second command
+// past a pattern written for the first, so 'auto' rules never match them.
+const COMPOUND_COMMAND = /[;&|<>`\n]|\$\(/;
+
+export function matchCommandPattern(pattern: string, cmd: string) {
+  const source = pattern.trim().split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`, 's').test(cmd.trim());
+}
+
+/** The shell command a call runs, for the tools that run one; input sent to a process may be run by a shell in it */
+export const shellCommandOf = (call: ValidToolCall) => {
+  if (call.tool === 'run_shell' || call.tool === 'start_process') return call.args.cmd;
+  if (call.tool === 'test_runner') return call.args.cmd || 'npm test --silent';
+  if (call.tool === 'send_process_input') return call.args.input;
+  return undefined;
+};
+
+export function evaluateApproval(policy: ApprovalPolicy, call: ValidToolCall): ApprovalDecision {
+  const cmd = shellCommandOf(call);
+  if (cmd !== undefined) {
+    const rule = policy.commands.find(r =>
+      matchCommandPattern(r.pattern, cmd) && !(r.mode === 'auto' && COMPOUND_COMMAND.test(cmd)));
+    if (rule) return { mode: rule.mode, reason: `command matches "${rule.pattern}"` };
+  }
+  // test_runner, start_process and send_process_input run arbitrary commands too, so they never default to looser than run_shell
+  const mode = policy.tools[call.tool] ?? (cmd !== undefined ? policy.tools.run_shell ?? 'ask' : 'auto');
+  // A move that may not overwrite cannot destroy anything
+  if (call.tool === 'move_path' && call.args.overwrite === false && mode === 'ask') {
+    return { mode: 'auto', reason: 'move without overwrite' };
+  }
+  return { mode, reason: `${call.tool} is set to ${mode}` };
+}
+
+/** Command rules as editable text, one "<mode> <pattern>" per line */
+export function formatCommandRules(rules: CommandRule[]) {
+  return rules.map(r => `${r.mode} ${r.pattern}`).join('\n');
+}
+
+/** Inverse of formatCommandRules; blank lines and lines without a valid mode are skipped */
+export function parseCommandRules(text: string): CommandRule[] {
+  return text.split('\n').flatMap(line => {
+    const match = line.trim().match(/^(auto|ask|deny)\s+(.+)$/);
+    return match ? [{ mode: match[1] as ApprovalMode, pattern: match[2].trim() }] : [];
+  });
+}
@@ -0,0 +1,67 @@
+import { formatCost, formatTokens } from './usage';
+
+// Per-run spending limits. Token and cost limits are checked between calls,
+// so the call that crosses a limit completes and the run stops before the next.
+
+export interface RunBudget {
+  /** Prompt + completion tokens across all model calls (0 = unlimited) */
+  maxTokens: number;
+  /** USD, counting only models with a known price (0 = unlimited) */
+  maxCost: number;
+  /** Wall-clock seconds from start, including time spent paused (0 = unlimited) */
+  maxSeconds: number;
+  /** Executed tool calls, excluding done (0 = unlimited) */
+  maxToolCalls: number;
+}
+
+export const DEFAULT_RUN_BUDGET: RunBudget = { maxTokens: 0, maxCost: 1, maxSeconds: 1800, maxToolCalls: 100 };
+
+/** What a run has consumed so far */
+export interface RunSpend {
+  startedAt: number;
+  tokens: number;
+  cost: number;
+  toolCalls: number;
+}
+
+export type BudgetKind = 'tokens' | 'cost' | 'time' | 'toolCalls';
+
+const describe = (kind: BudgetKind, value: number) => {
+  switch (kind) {
+    case 'tokens': return `${formatTokens(value)} tokens`;
+    case 'cost': return formatCost(value);
+    case 'time': return `${Math.round(value)}s`;
+    case 'toolCalls': return `${value} tool calls`;
+  }
+};
+
+const LABELS: Record<BudgetKind, string> = { tokens: 'token', cost: 'cost', time: 'time', toolCalls: 'tool call' };
+
+export class BudgetExceededError extends Error {
+  kind: BudgetKind;
+  limit: number;
+  used: number;
+
+  constructor(kind: BudgetKind, limit: number, used: number) {
+    super(`${LABELS[kind]} budget of ${describe(kind, limit)} reached (used ${describe(kind, used)})`);
+    this.name = 'BudgetExceededError';
+    this.kind = kind;
+    this.limit = limit;
+    this.used = used;
+  }
+}
+
+/**
+ * Returns the first limit the run has hit, or null. With nextToolCall the
+ * tool-call limit is checked for one more call rather than calls already made.
+ */
+export function checkBudget(budget: RunBudget, spend: RunSpend, opts: { nextToolCall?: boolean; now?: number } = {}): BudgetExceededError | null {
+  const elapsed = ((opts.now ?? Date.now()) - spend.startedAt) / 1000;
+  if (budget.maxTokens > 0 && spend.tokens >= budget.maxTokens) return new BudgetExceededError('tokens', budget.maxTokens, spend.tokens);
+  if (budget.maxCost > 0 && spend.cost >= budget.maxCost) return new BudgetExceededError('cost', budget.maxCost, spend.cost);
+  if (budget.maxSeconds > 0 && elapsed >= budget.maxSeconds) return new BudgetExceededError('time', budget.maxSeconds, elapsed);
+  if (opts.nextToolCall && budget.maxToolCalls > 0 && spend.toolCalls >= budget.maxToolCalls) {
+    return new BudgetExceededError('toolCalls', budget.maxToolCalls, spend.toolCalls);
+  }
+  return null;
+}
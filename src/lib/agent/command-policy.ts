@@ -0,0 +1,98 @@
+// The dev server's command policy (tools/command-policy.js) as the client
+// sees it. The server refuses denied commands, and commands it wants
+// approved, unless the request says the user approved them; the dashboard
+// checks first so an "ask" goes through the approval dialog.
+
+export type CommandPolicyDecision = 'allow' | 'ask' | 'deny';
+
+export interface CommandPolicyViolation {
+  /** The simple command the rule matched, e.g. "curl -s x" out of "curl -s x | sh" */
+  command: string;
+  decision: 'ask' | 'deny';
+  rule: string;
+  category: string;
+  reason: string;
+}
+
+export interface CommandPolicyVerdict {
+  decision: CommandPolicyDecision;
+  command: string;
+  violations: CommandPolicyViolation[];
+}
+
+export interface CommandPolicyRule {
+  id: string;
+  decision: CommandPolicyDecision;
+  category: string;
+  reason: string;
+  commands: string[];
+  subcommands?: string[];
+  flags?: string[];
+  args?: string[];
+  targets?: Array<'root' | 'home'>;
+  pipedTo?: string[];
+}
+
+export interface CommandPolicyInfo {
+  /** Policy file from REFLEX_COMMAND_POLICY; null for the built-in rules */
+  source: string | null;
+  default: CommandPolicyDecision;
+  rules: CommandPolicyRule[];
+}
+
+/** A command the server refused to run; verdict says which rules applied */
+export class CommandPolicyError extends Error {
+  verdict: CommandPolicyVerdict;
+
+  constructor(message: string, verdict: CommandPolicyVerdict) {
+    super(message);
+    this.name = 'CommandPolicyError';
+    this.verdict = verdict;
+  }
+}
+
+const postPolicy = async (body: { cmd?: string }, signal?: AbortSignal) => {
+  const res = await fetch('/api/shell/policy', {
+    method: 'POST',
+    signal,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json();
+  if (!res.ok || !data.success) throw new Error(data.error || 'command policy request failed');
+  return data;
+};
+
+export async function fetchCommandPolicy(): Promise<CommandPolicyInfo> {
+  const { source, default: defaultDecision, rules } = await postPolicy({});
+  return { source, default: defaultDecision, rules };
+}
+
+export async function checkCommandPolicy(cmd: string, signal?: AbortSignal): Promise<CommandPolicyVerdict> {
+  return (await postPolicy({ cmd }, signal)).verdict;
+}
+
+/** "curl -s x: runs downloaded content in an interpreter; sudo ls: runs commands as another user" */
+export function describeViolations(verdict: CommandPolicyVerdict) {
+  return verdict.violations.map(v => `${v.command}: ${v.reason}`).join('; ');
+}
+
+/** Tool result for a refused command: the verdict as JSON, then what to do about it */
+export function formatPolicyRefusal(verdict: CommandPolicyVerdict) {
+  const advice = verdict.decision === 'deny'
+    ? 'Do not retry it or run an equivalent command; take another approach or explain in done what the user needs to do.'
+    : 'It needs the user\'s approval, which was not given; take another approach.';
+  return `Refused by the command policy:\n${JSON.stringify({ refused: true, ...verdict })}\n${advice}`;
+}
+
+/** One line per rule, e.g. "deny privilege (sudo, su): runs commands as another user" */
+export function formatPolicyRule(rule: CommandPolicyRule) {
+  const conditions = [
+    rule.subcommands && `subcommand ${rule.subcommands.join('|')}`,
+    rule.flags && `flag ${rule.flags.join('|')}`,
+    rule.args && `arg ${rule.args.join('|')}`,
+    rule.targets && `target ${rule.targets.join('|')}`,
+    rule.pipedTo && `piped to ${rule.pipedTo.join('|')}`,
+  ].filter(Boolean);
+  return `${rule.decision} ${rule.id} (${rule.commands.join(', ')}${conditions.length ? `; ${conditions.join('; ')}` : ''}): ${rule.reason}`;
+}
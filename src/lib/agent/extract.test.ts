@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { JSONValueScanner, extractJSONValues, extractToolCalls } from './extract';
+
+const call = (tool: string, args: Record<string, unknown> = {}) => ({ tool, ...args });
+
+describe('extractToolCalls', () => {
+  it('keeps braces, quotes and backticks inside file content', () => {
+    const content = 'function f() {\n  const s = "a \\"quoted\\" }{ string";\n  return `${s} [ok]`;\n}\n';
+    const text = JSON.stringify(call('write_file', { path: 'src/f.ts', content }));
+    expect(extractToolCalls(text)).toEqual([call('write_file', { path: 'src/f.ts', content })]);
+  });
+
+  it('keeps unbalanced brackets inside strings', () => {
+    const content = 'if (x) { // note: "}" and "]" and `{`\n';
+    const text = `Writing it now:\n${JSON.stringify(call('write_file', { path: 'a.js', content }))}\nDone.`;
+    expect(extractToolCalls(text)).toEqual([call('write_file', { path: 'a.js', content })]);
+  });
+
+  it('finds a call inside a code fence with prose around it', () => {
+    const text = 'I will read the file first.\n```json\n{"tool":"read_file","path":"README.md"}\n```\nThen edit it.';
+    expect(extractToolCalls(text)).toEqual([call('read_file', { path: 'README.md' })]);
+  });
+
+  it('flattens a top-level array of calls', () => {
+    const text = '[{"tool":"list_files","path":"."},{"tool":"read_file","path":"package.json"}]';
+    expect(extractToolCalls(text)).toEqual([call('list_files', { path: '.' }), call('read_file', { path: 'package.json' })]);
+  });
+
+  it('reads JSONL, one call per line', () => {
+    const text = [
+      '{"tool":"make_dir","path":"src/lib"}',
+      '{"tool":"write_file","path":"src/lib/x.ts","content":"export const x = { a: [1, 2] };\\n"}',
+      '{"tool":"run_shell","cmd":"echo \\"{}\\""}',
+    ].join('\n');
+    expect(extractToolCalls(text)).toEqual([
+      call('make_dir', { path: 'src/lib' }),
+      call('write_file', { path: 'src/lib/x.ts', content: 'export const x = { a: [1, 2] };\n' }),
+      call('run_shell', { cmd: 'echo "{}"' }),
+    ]);
+  });
+
+  it('skips a stray opening brace in prose', () => {
+    const text = 'The config uses { for blocks.\n{"tool":"done","summary":"ok"}';
+    expect(extractToolCalls(text)).toEqual([call('done', { summary: 'ok' })]);
+  });
+
+  it('looks inside balanced code that is not JSON', () => {
+    const text = 'function g() { return {"tool":"read_file","path":"a"}; }';
+    expect(extractToolCalls(text)).toEqual([call('read_file', { path: 'a' })]);
+  });
+
+  it('ignores JSON values that are not tool calls', () => {
+    const text = '{"note":"no tool here"} [1, 2, 3] {"tool":42} {"tool":"done"}';
+    expect(extractToolCalls(text)).toEqual([call('done')]);
+  });
+});
+
+describe('extractJSONValues', () => {
+  it('returns objects and arrays in order', () => {
+    expect(extractJSONValues('a {"x":1} b [2] c {"y":{"z":[3]}}')).toEqual([{ x: 1 }, [2], { y: { z: [3] } }]);
+  });
+
+  it('skips mismatched brackets', () => {
+    expect(extractJSONValues('{ ] {"ok":true}')).toEqual([{ ok: true }]);
+  });
+});
+
+describe('JSONValueScanner', () => {
+  it('emits each value once it is complete across chunks', () => {
+    const scanner = new JSONValueScanner();
+    const text = '{"tool":"write_file","path":"b.ts","content":"const o = { s: \\"`}`\\" };"}\n[{"tool":"done"}]';
+    const seen: unknown[] = [];
+    for (let i = 0; i < text.length; i += 7) seen.push(...scanner.push(text.slice(i, i + 7)));
+    seen.push(...scanner.end());
+    expect(seen).toEqual([
+      { tool: 'write_file', path: 'b.ts', content: 'const o = { s: "`}`" };' },
+      [{ tool: 'done' }],
+    ]);
+  });
+
+  it('holds back an unclosed value until end() rescans past it', () => {
+    const scanner = new JSONValueScanner();
+    expect(scanner.push('Stray { then {"tool":"done"}')).toEqual([]);
+    expect(scanner.end()).toEqual([{ tool: 'done' }]);
+  });
+});
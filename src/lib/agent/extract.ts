@@ -0,0 +1,110 @@
+// Pulls JSON tool calls out of free-form model text for providers without
+// native function calling. Values are found by a string-aware bracket scan
+// rather than a regex, so file content containing braces, quotes or
+// backticks survives intact. Accepts single objects, top-level arrays of
+// calls and JSONL, with or without surrounding prose and code fences.
+
+const MISMATCHED = -2;
+const INCOMPLETE = -1;
+
+/**
+ * Index just past the object or array opening at `start`, INCOMPLETE when
+ * the text ends first, or MISMATCHED when a closing bracket does not match.
+ */
+function findValueEnd(text: string, start: number) {
+  const closers: string[] = [];
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') closers.push('}');
+    else if (ch === '[') closers.push(']');
+    else if (ch === '}' || ch === ']') {
+      if (closers.pop() !== ch) return MISMATCHED;
+      if (closers.length === 0) return i + 1;
+    }
+  }
+  return INCOMPLETE;
+}
+
+const nextOpening = (text: string, from: number) => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '{' || text[i] === '[') return i;
+  }
+  return -1;
+};
+
+/**
+ * Incremental scanner: push() text as it arrives and receive every complete
+ * top-level JSON object or array. A bracket that never closes (e.g. a stray
+ * "{" in prose) holds output back until end(), which rescans past it.
+ */
+export class JSONValueScanner {
+  private buffer = '';
+
+  push(chunk: string): unknown[] {
+    this.buffer += chunk;
+    return this.drain(false);
+  }
+
+  end(): unknown[] {
+    return this.drain(true);
+  }
+
+  private drain(final: boolean) {
+    const values: unknown[] = [];
+    let pos = 0;
+    while (true) {
+      const start = nextOpening(this.buffer, pos);
+      if (start === -1) {
+        pos = this.buffer.length;
+        break;
+      }
+      const end = findValueEnd(this.buffer, start);
+      if (end === INCOMPLETE && !final) {
+        pos = start;
+        break;
+      }
+      if (end < 0) {
+        pos = start + 1;
+        continue;
+      }
+      try {
+        values.push(JSON.parse(this.buffer.slice(start, end)));
+        pos = end;
+      } catch {
+        // Balanced but not JSON (e.g. a code snippet); look inside it instead
+        pos = start + 1;
+      }
+    }
+    this.buffer = this.buffer.slice(pos);
+    return values;
+  }
+}
+
+/** Every top-level JSON object or array in the text, in order */
+export function extractJSONValues(text: string): unknown[] {
+  const scanner = new JSONValueScanner();
+  return [...scanner.push(text), ...scanner.end()];
+}
+
+/** A tool call as the model wrote it: the tool name and its unvalidated arguments */
+export type RawToolCall = Record<string, unknown> & { tool: string };
+
+const isToolCall = (value: unknown): value is RawToolCall =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && 'tool' in value && typeof value.tool === 'string';
+
+/**
+ * Tool-call objects ({"tool": ...}) in the text; arrays of calls are flattened.
+ * Only the tool name is checked here; callers validate the arguments.
+ */
+export function extractToolCalls(text: string) {
+  return extractJSONValues(text)
+    .flatMap(value => (Array.isArray(value) ? value : [value]))
+    .filter(isToolCall);
+}
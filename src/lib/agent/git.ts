@@ -0,0 +1,82 @@
+// Response shapes of the /api/git/* endpoints and the compact text the
+// agent sees for each. The server parses git's porcelain output; these
+// helpers only render it.
+
+export interface GitStatusFile {
+  path: string;
+  /** Original path of a rename or copy */
+  from?: string;
+  /** Porcelain X column: staged change ("?" for untracked, " " for none) */
+  index: string;
+  /** Porcelain Y column: unstaged change */
+  worktree: string;
+}
+
+export interface GitStatus {
+  branch: string;
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+  clean: boolean;
+  files: GitStatusFile[];
+}
+
+export interface GitDiffFile {
+  path: string;
+  /** null for binary files */
+  added: number | null;
+  removed: number | null;
+}
+
+export interface GitCommitInfo {
+  hash: string;
+  author: string;
+  /** ISO 8601 author date */
+  date: string;
+  subject: string;
+}
+
+export interface GitBranch {
+  name: string;
+  current: boolean;
+  commit: string;
+  upstream: string | null;
+}
+
+export interface GitStash {
+  /** e.g. "stash@{0}" */
+  ref: string;
+  subject: string;
+}
+
+/** "## main...origin/main [ahead 1]" followed by one "XY path" line per file, like `git status -sb` */
+export function formatGitStatus(status: GitStatus) {
+  const tracking = [status.ahead && `ahead ${status.ahead}`, status.behind && `behind ${status.behind}`].filter(Boolean).join(', ');
+  const header = `## ${status.branch || '(detached)'}${status.upstream ? `...${status.upstream}` : ''}${tracking ? ` [${tracking}]` : ''}`;
+  if (status.clean) return `${header}\nWorking tree clean`;
+  const lines = status.files.map(f => `${f.index}${f.worktree} ${f.from ? `${f.from} -> ` : ''}${f.path}`);
+  const staged = status.files.filter(f => f.index !== ' ' && f.index !== '?').length;
+  const untracked = status.files.filter(f => f.index === '?').length;
+  return [header, ...lines, `${staged} staged, ${status.files.length - staged - untracked} unstaged, ${untracked} untracked`].join('\n');
+}
+
+/** numstat summary ("+12 -3 src/a.ts") followed by the patch itself */
+export function formatGitDiff(files: GitDiffFile[], diff: string) {
+  if (files.length === 0) return 'No changes';
+  const summary = files.map(f => f.added === null ? `binary ${f.path}` : `+${f.added} -${f.removed} ${f.path}`);
+  return `${summary.join('\n')}\n\n${diff}`;
+}
+
+export function formatGitLog(commits: GitCommitInfo[]) {
+  if (commits.length === 0) return 'No commits';
+  return commits.map(c => `${c.hash.slice(0, 7)} ${c.date.slice(0, 10)} ${c.author}: ${c.subject}`).join('\n');
+}
+
+export function formatGitBranches(branches: GitBranch[]) {
+  if (branches.length === 0) return 'No branches';
+  return branches.map(b => `${b.current ? '*' : ' '} ${b.name} ${b.commit}${b.upstream ? ` [${b.upstream}]` : ''}`).join('\n');
+}
+
+export function formatGitStashes(stashes: GitStash[]) {
+  return stashes.length === 0 ? 'No stashes' : stashes.map(s => `${s.ref}: ${s.subject}`).join('\n');
+}
@@ -0,0 +1,132 @@
+import type { ChatMessage, LLMReply } from './providers';
+
+// Deterministic stand-in for a model: replays canned replies so the agent
+// loop can be exercised without a network or an API key.
+//
+// A script is JSONL (or a single JSON object with "rules"/"replies" arrays).
+// Each line is either
+//   - a reply:  {"text": "...", "toolCalls": [{"name": "write_file", "arguments": {...}}]}
+//   - a rule:   {"match": "<substring>", "reply": {...}, "times": 1}
+// Rules are checked first, in order, against the input the model would be
+// answering (the messages after its last turn); the first unexhausted match
+// wins. Otherwise the next reply in sequence is returned. When both run out
+// the mock calls done.
+
+export interface MockReply {
+  text?: string;
+  toolCalls?: Array<{ id?: string; name: string; arguments?: Record<string, unknown> }>;
+}
+
+export interface MockRule {
+  match: string;
+  reply: MockReply;
+  /** How many times the rule may fire (unlimited when omitted) */
+  times?: number;
+}
+
+export interface MockScript {
+  replies: MockReply[];
+  rules: MockRule[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const isRule = (entry: unknown): entry is MockRule => isObject(entry) && typeof entry.match === 'string';
+
+function assertReply(reply: unknown, where: string): asserts reply is MockReply {
+  if (!isObject(reply)) throw new Error(`${where}: reply must be an object`);
+  if (reply.text !== undefined && typeof reply.text !== 'string') throw new Error(`${where}: text must be a string`);
+  if (reply.toolCalls !== undefined && !Array.isArray(reply.toolCalls)) throw new Error(`${where}: toolCalls must be an array`);
+  for (const call of (reply.toolCalls as unknown[] | undefined) || []) {
+    if (!isObject(call) || typeof call.name !== 'string') throw new Error(`${where}: every tool call needs a name`);
+  }
+}
+
+export function parseMockScript(source: string): MockScript {
+  const script: MockScript = { replies: [], rules: [] };
+  const trimmed = source.trim();
+
+  // Whole-file JSON rules document
+  if (trimmed.startsWith('{')) {
+    try {
+      const doc: unknown = JSON.parse(trimmed);
+      if (isObject(doc) && (Array.isArray(doc.rules) || Array.isArray(doc.replies))) {
+        const rules: unknown[] = Array.isArray(doc.rules) ? doc.rules : [];
+        const replies: unknown[] = Array.isArray(doc.replies) ? doc.replies : [];
+        for (const [i, rule] of rules.entries()) {
+          if (!isRule(rule)) throw new Error(`rules[${i}]: match must be a string`);
+          assertReply(rule.reply, `rules[${i}]`);
+          script.rules.push(rule);
+        }
+        for (const [i, reply] of replies.entries()) {
+          assertReply(reply, `replies[${i}]`);
+          script.replies.push(reply);
+        }
+        if (!script.rules.length && !script.replies.length) throw new Error('Mock script is empty');
+        return script;
+      }
+    } catch (e) {
+      // Not a single document; fall through to JSONL unless it was a validation error
+      if (!(e instanceof SyntaxError)) throw e;
+    }
+  }
+
+  source.split('\n').forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('//')) return;
+    let entry: unknown;
+    try {
+      entry = JSON.parse(line);
+    } catch (e) {
+      throw new Error(`Line ${index + 1}: ${(e as SyntaxError).message}`);
+    }
+    if (isRule(entry)) {
+      assertReply(entry.reply, `Line ${index + 1}`);
+      script.rules.push(entry);
+    } else {
+      assertReply(entry, `Line ${index + 1}`);
+      script.replies.push(entry);
+    }
+  });
+
+  if (!script.rules.length && !script.replies.length) throw new Error('Mock script is empty');
+  return script;
+}
+
+// Everything the model has not responded to yet: user text and tool results
+function pendingInput(messages: ChatMessage[]) {
+  let start = 0;
+  messages.forEach((m, i) => { if (m.role === 'assistant') start = i + 1; });
+  return messages.slice(start).map(m => m.content).join('\n');
+}
+
+export type MockResponder = (messages: ChatMessage[]) => LLMReply;
+
+export function createMockResponder(script: MockScript): MockResponder {
+  let cursor = 0;
+  let call = 0;
+  const fired = new Map<MockRule, number>();
+
+  const toReply = (reply: MockReply): LLMReply => ({
+    text: reply.text || '',
+    toolCalls: (reply.toolCalls || []).map((c, i) => ({
+      id: c.id || `mock_${call}_${i}`,
+      name: c.name,
+      arguments: c.arguments || {},
+    })),
+  });
+
+  return (messages) => {
+    call += 1;
+    const input = pendingInput(messages);
+    for (const rule of script.rules) {
+      const count = fired.get(rule) || 0;
+      if (rule.times !== undefined && count >= rule.times) continue;
+      if (!input.includes(rule.match)) continue;
+      fired.set(rule, count + 1);
+      return toReply(rule.reply);
+    }
+    if (cursor < script.replies.length) return toReply(script.replies[cursor++]);
+    return toReply({ toolCalls: [{ name: 'done', arguments: { summary: 'Mock script exhausted.' } }] });
+  };
+}
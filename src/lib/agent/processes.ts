@@ -0,0 +1,68 @@
+import type { SandboxInfo } from './sandbox';
+
+// Background processes started through /api/processes/* (dev servers,
+// watchers): response shapes, the list request the Processes panel polls
+// with, and the compact text the agent sees.
+
+export interface ProcessInfo {
+  id: string;
+  name: string;
+  cmd: string;
+  cwd: string;
+  pid: number | null;
+  status: 'running' | 'exited';
+  /** null while running or when killed by a signal */
+  exitCode: number | null;
+  signal: string | null;
+  /** Set when the command could not be started */
+  error: string | null;
+  /** Ended by a stop request rather than on its own */
+  stopped: boolean;
+  startedAt: number;
+  endedAt: number | null;
+  /** Execution backend it runs under */
+  sandbox: SandboxInfo | null;
+  uptimeMs: number;
+  /** Total output so far; pass it back as `since` to read only what follows */
+  cursor: number;
+  /** TCP ports the process group is listening on */
+  ports: number[];
+  /** Last lines of output, when requested */
+  tail?: string;
+}
+
+export async function fetchProcesses(tailLines = 10): Promise<ProcessInfo[]> {
+  const res = await fetch('/api/processes/list', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ tailLines }),
+  });
+  const data = await res.json();
+  if (!res.ok || !data.success) throw new Error(data.error || 'process list failed');
+  return data.processes;
+}
+
+/** "45s", "12m 3s" or "2h 5m" */
+export function formatUptime(ms: number) {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+}
+
+/** "running 2m 3s", "exited with code 1 after 4s" or "stopped (SIGTERM) after 1m 2s" */
+export function describeProcessStatus(p: ProcessInfo) {
+  const uptime = formatUptime(p.uptimeMs);
+  if (p.status === 'running') return `running ${uptime}`;
+  if (p.error) return `failed to start: ${p.error}`;
+  const how = p.signal ? `${p.stopped ? 'stopped' : 'killed'} (${p.signal})` : `exited with code ${p.exitCode}`;
+  return `${how} after ${uptime}`;
+}
+
+/** "p1 (pid 4242) running 5s, listening on 5173: npm run dev" */
+export function formatProcessInfo(p: ProcessInfo) {
+  const ports = p.ports.length ? `, listening on ${p.ports.join(', ')}` : '';
+  // Without the network its ports are only reachable from inside the sandbox
+  const sandbox = p.sandbox?.network === false ? `, in ${p.sandbox.backend} sandbox without network` : '';
+  return `${p.id} (pid ${p.pid ?? '?'}) ${describeProcessStatus(p)}${ports}${sandbox}: ${p.cmd}`;
+}
@@ -0,0 +1,279 @@
+import { buildSystemPrompt, toAnthropicTools, toOpenAITools } from './tools';
+import { parseUsage, type TokenUsage } from './usage';
+
+// Provider catalog plus request/response adapters for each chat API dialect.
+
+/** Native function-calling dialect; 'none' falls back to parsing JSON tool calls from text */
+export type ToolCallingStyle = 'openai' | 'anthropic' | 'none';
+
+export interface ProviderInfo {
+  id: string;
+  name: string;
+  description: string;
+  baseUrl: string;
+  toolCalling: ToolCallingStyle;
+  /** Local servers usually run without auth */
+  requiresKey?: boolean;
+  /** Base URL is supplied by the user rather than fixed */
+  customBaseUrl?: boolean;
+  /** Replies come from a local script (see mock-provider.ts); nothing is sent over the network */
+  mock?: boolean;
+}
+
+export const PROVIDERS: ProviderInfo[] = [
+  { id: 'OPENROUTER_API_KEY', name: 'OpenRouter', description: 'Access to multiple models', baseUrl: 'https://openrouter.ai/api/v1', toolCalling: 'openai' },
+  { id: 'ANTHROPIC_API_KEY', name: 'Anthropic', description: 'Claude models', baseUrl: 'https://api.anthropic.com', toolCalling: 'anthropic' },
+  { id: 'OPENAI_API_KEY', name: 'OpenAI', description: 'GPT models', baseUrl: 'https://api.openai.com/v1', toolCalling: 'openai' },
+  // Inference router by default; point the base URL at a TGI container to run locally
+  { id: 'HUGGINGFACE_API_KEY', name: 'HuggingFace', description: 'Open-source models (Inference or local TGI)', baseUrl: 'https://router.huggingface.co/v1', toolCalling: 'none', requiresKey: false, customBaseUrl: true },
+  { id: 'GROQ_API_KEY', name: 'Groq', description: 'Fast inference', baseUrl: 'https://api.groq.com/openai/v1', toolCalling: 'openai' },
+  { id: 'PERPLEXITY_API_KEY', name: 'Perplexity', description: 'Search-enhanced models', baseUrl: 'https://api.perplexity.ai', toolCalling: 'none' },
+  { id: 'CUSTOM_OPENAI_API_KEY', name: 'Custom / Local', description: 'OpenAI-compatible server (Ollama, llama.cpp, LM Studio)', baseUrl: 'http://localhost:11434/v1', toolCalling: 'openai', requiresKey: false, customBaseUrl: true },
+  { id: 'MOCK_PROVIDER', name: 'Mock (scripted)', description: 'Replays canned responses offline', baseUrl: '', toolCalling: 'openai', requiresKey: false, mock: true },
+];
+
+/** User overrides for providers with a configurable endpoint */
+export interface ProviderSettings {
+  baseUrl?: string;
+  toolCalling?: ToolCallingStyle;
+  /** Mock provider script, resolved against the workspace */
+  fixturePath?: string;
+}
+
+/**
+ * Trims trailing slashes and appends /v1 when the URL has no path, so
+ * "http://localhost:11434" and "http://localhost:11434/v1/" both work.
+ */
+export function normalizeBaseUrl(url: string) {
+  const trimmed = url.trim().replace(/\/+$/, '');
+  try {
+    const parsed = new URL(trimmed);
+    return parsed.pathname === '/' || parsed.pathname === '' ? `${trimmed}/v1` : trimmed;
+  } catch {
+    return trimmed;
+  }
+}
+
+export const getProvider = (id: string) => PROVIDERS.find(p => p.id === id);
+
+/** Catalog entry with any user overrides (base URL, tool-calling dialect) applied */
+export function resolveProvider(id: string, settings?: ProviderSettings): ProviderInfo | undefined {
+  const provider = getProvider(id);
+  if (!provider) return undefined;
+  return {
+    ...provider,
+    baseUrl: provider.customBaseUrl && settings?.baseUrl ? normalizeBaseUrl(settings.baseUrl) : provider.baseUrl,
+    toolCalling: settings?.toolCalling ?? provider.toolCalling,
+  };
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export type ChatMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string; isError?: boolean };
+
+export interface LLMReply {
+  text: string;
+  toolCalls: ToolCall[];
+  /** Token counts reported by the provider, when it sends them */
+  usage?: TokenUsage;
+}
+
+export interface ChatRequest {
+  endpoint: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+/** Per-model sampling parameters chosen in the dashboard */
+export interface ModelParams {
+  temperature: number;
+  maxTokens: number;
+}
+
+export const DEFAULT_MODEL_PARAMS: ModelParams = { temperature: 0.7, maxTokens: 4000 };
+
+// OpenAI-compatible history: assistant tool_calls + role "tool" results
+function toOpenAIMessages(messages: ChatMessage[]) {
+  return messages.map(m => {
+    if (m.role === 'assistant' && m.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: m.content || null,
+        tool_calls: m.toolCalls.map(c => ({
+          id: c.id,
+          type: 'function',
+          function: { name: c.name, arguments: JSON.stringify(c.arguments) },
+        })),
+      };
+    }
+    if (m.role === 'tool') return { role: 'tool', tool_call_id: m.toolCallId, content: m.content };
+    return { role: m.role, content: m.content };
+  });
+}
+
+// Anthropic history: tool_use blocks on the assistant turn, and consecutive
+// tool results folded into a single user turn of tool_result blocks.
+function toAnthropicMessages(messages: ChatMessage[]) {
+  const out: Array<{ role: 'user' | 'assistant'; content: unknown }> = [];
+  for (const m of messages) {
+    if (m.role === 'tool') {
+      const block = { type: 'tool_result', tool_use_id: m.toolCallId, content: m.content, is_error: !!m.isError };
+      const last = out[out.length - 1];
+      if (last && last.role === 'user' && Array.isArray(last.content)) last.content.push(block);
+      else out.push({ role: 'user', content: [block] });
+    } else if (m.role === 'assistant' && m.toolCalls?.length) {
+      const blocks: unknown[] = m.content ? [{ type: 'text', text: m.content }] : [];
+      for (const c of m.toolCalls) blocks.push({ type: 'tool_use', id: c.id, name: c.name, input: c.arguments });
+      out.push({ role: 'assistant', content: blocks });
+    } else {
+      out.push({ role: m.role, content: m.content });
+    }
+  }
+  return out;
+}
+
+// Text-only history for providers without function calling: native calls
+// are rendered as the JSON protocol the text prompt asks for.
+function toTextMessages(messages: ChatMessage[]) {
+  return messages.map(m => {
+    if (m.role === 'assistant' && m.toolCalls?.length) {
+      const calls = m.toolCalls.map(c => JSON.stringify({ tool: c.name, ...c.arguments })).join('\n');
+      return { role: 'assistant', content: [m.content, calls].filter(Boolean).join('\n') };
+    }
+    if (m.role === 'tool') {
+      return { role: 'user', content: `Tool result (${m.name}${m.isError ? ', error' : ''}):\n${m.content}` };
+    }
+    return { role: m.role, content: m.content };
+  });
+}
+
+export interface ChatRequestOptions {
+  /** Request a server-sent event stream instead of a single JSON body */
+  stream?: boolean;
+  settings?: ProviderSettings;
+  params?: Partial<ModelParams>;
+}
+
+export function buildChatRequest(providerId: string, modelId: string, apiKey: string, messages: ChatMessage[], opts: ChatRequestOptions = {}): ChatRequest {
+  const provider = resolveProvider(providerId, opts.settings);
+  if (!provider) throw new Error('Provider not found');
+
+  const { temperature, maxTokens } = { ...DEFAULT_MODEL_PARAMS, ...opts.params };
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const system = buildSystemPrompt(provider.toolCalling !== 'none');
+
+  switch (provider.toolCalling) {
+    case 'anthropic':
+      headers['x-api-key'] = apiKey;
+      headers['anthropic-version'] = '2023-06-01';
+      headers['anthropic-dangerous-direct-browser-access'] = 'true';
+      return {
+        endpoint: `${provider.baseUrl}/v1/messages`,
+        headers,
+        body: {
+          model: modelId,
+          max_tokens: maxTokens,
+          temperature,
+          system,
+          messages: toAnthropicMessages(messages),
+          tools: toAnthropicTools(),
+          ...(opts.stream ? { stream: true } : {}),
+        },
+      };
+
+    case 'openai':
+    case 'none': {
+      if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+      if (providerId === 'OPENROUTER_API_KEY') {
+        headers['HTTP-Referer'] = window.location.origin;
+        headers['X-Title'] = 'Reflex Coder';
+      }
+      const native = provider.toolCalling === 'openai';
+      // Streamed OpenAI responses only report usage when asked to
+      const streamUsage = providerId === 'OPENAI_API_KEY' || providerId === 'OPENROUTER_API_KEY';
+      return {
+        endpoint: `${provider.baseUrl}/chat/completions`,
+        headers,
+        body: {
+          model: modelId,
+          messages: [
+            { role: 'system', content: system },
+            ...(native ? toOpenAIMessages(messages) : toTextMessages(messages)),
+          ],
+          temperature,
+          max_tokens: maxTokens,
+          ...(native ? { tools: toOpenAITools(), tool_choice: 'auto' } : {}),
+          ...(opts.stream ? { stream: true } : {}),
+          ...(opts.stream && streamUsage ? { stream_options: { include_usage: true } } : {}),
+        },
+      };
+    }
+
+    default:
+      throw new Error(`Unsupported provider: ${providerId}`);
+  }
+}
+
+const parseArguments = (raw: unknown): Record<string, unknown> => {
+  if (raw && typeof raw === 'object') return raw as Record<string, unknown>;
+  if (typeof raw !== 'string' || !raw.trim()) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+// The parts of a (non-streamed) chat response read below; servers may omit any of them
+interface AnthropicContentBlock {
+  type?: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+}
+
+interface OpenAIToolCall {
+  id?: string;
+  function?: { name?: string; arguments?: unknown };
+}
+
+export interface ChatResponseBody {
+  content?: AnthropicContentBlock[];
+  choices?: Array<{ message?: { content?: string | null; tool_calls?: OpenAIToolCall[] } }>;
+  usage?: unknown;
+}
+
+export function parseChatResponse(providerId: string, data: ChatResponseBody): LLMReply {
+  const provider = getProvider(providerId);
+  if (provider?.toolCalling === 'anthropic') {
+    const blocks: AnthropicContentBlock[] = Array.isArray(data?.content) ? data.content : [];
+    return {
+      text: blocks.filter(b => b.type === 'text').map(b => b.text).join(''),
+      toolCalls: blocks
+        .filter(b => b.type === 'tool_use')
+        .map(b => ({ id: b.id, name: b.name, arguments: parseArguments(b.input) })),
+      usage: parseUsage(data?.usage),
+    };
+  }
+
+  const message = data?.choices?.[0]?.message || {};
+  const calls: OpenAIToolCall[] = Array.isArray(message.tool_calls) ? message.tool_calls : [];
+  return {
+    text: message.content || '',
+    toolCalls: calls.map((c, i) => ({
+      id: c.id || `call_${i}`,
+      name: c.function?.name || '',
+      arguments: parseArguments(c.function?.arguments),
+    })),
+    usage: parseUsage(data?.usage),
+  };
+}
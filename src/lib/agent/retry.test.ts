@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { NetworkError, ProviderHTTPError, fetchProvider, isRetryable, withRetry } from './retry';
+
+const policy = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1 };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('isRetryable', () => {
+  it('retries rate limits, timeouts and server errors only', () => {
+    expect(isRetryable(new ProviderHTTPError(429, ''))).toBe(true);
+    expect(isRetryable(new ProviderHTTPError(408, ''))).toBe(true);
+    expect(isRetryable(new ProviderHTTPError(503, ''))).toBe(true);
+    expect(isRetryable(new ProviderHTTPError(400, ''))).toBe(false);
+  });
+
+  it('retries network failures but not other TypeErrors', () => {
+    expect(isRetryable(new NetworkError(new TypeError('Failed to fetch')))).toBe(true);
+    expect(isRetryable(new TypeError("Cannot read properties of undefined (reading 'content')"))).toBe(false);
+  });
+});
+
+describe('fetchProvider', () => {
+  it('reports a failed request as a NetworkError', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+    await expect(fetchProvider('https://example.test')).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  it('passes an abort through unchanged', async () => {
+    const abort = new DOMException('Run stopped', 'AbortError');
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(abort));
+    await expect(fetchProvider('https://example.test')).rejects.toBe(abort);
+  });
+});
+
+describe('withRetry', () => {
+  it('surfaces a bug in response handling on the first call', async () => {
+    const fn = vi.fn().mockRejectedValue(new TypeError('x is undefined'));
+    await expect(withRetry(fn, policy)).rejects.toThrow('x is undefined');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a network failure until it succeeds', async () => {
+    const fn = vi.fn().mockRejectedValueOnce(new NetworkError(new TypeError('Failed to fetch'))).mockResolvedValue('ok');
+    expect(await withRetry(fn, policy)).toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
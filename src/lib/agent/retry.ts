@@ -0,0 +1,100 @@
+// Retry with exponential backoff for provider calls. 429s and 5xx responses
+// (and network failures reported by fetchProvider) are retried; Retry-After
+// takes precedence over the computed delay when the server sends one.
+
+export interface RetryPolicy {
+  /** Retries after the first failed call (0 disables retrying) */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+export class ProviderHTTPError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(status: number, body: string, retryAfterMs?: number) {
+    super(`API request failed: ${status} - ${body}`);
+    this.name = 'ProviderHTTPError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** The request never got a response (DNS, connection refused, CORS, dropped connection) */
+export class NetworkError extends Error {
+  constructor(cause: unknown) {
+    super(`Network request failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * fetch that reports its own failures as NetworkError, so a TypeError thrown
+ * while handling the response is a bug that surfaces instead of being retried
+ */
+export async function fetchProvider(input: RequestInfo | URL, init?: RequestInit) {
+  try {
+    return await fetch(input, init);
+  } catch (error) {
+    // fetch rejects with a TypeError when the network request itself fails
+    if (error instanceof TypeError) throw new NetworkError(error);
+    throw error;
+  }
+}
+
+/** Retry-After is either delay-seconds or an HTTP date */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Only provider HTTP errors and network failures are retried */
+export function isRetryable(error: unknown): error is ProviderHTTPError | NetworkError {
+  if (error instanceof ProviderHTTPError) return error.status === 408 || error.status === 429 || error.status >= 500;
+  return error instanceof NetworkError;
+}
+
+export function backoffDelay(retry: number, policy: RetryPolicy, retryAfterMs?: number) {
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, policy.maxDelayMs);
+  const exponential = policy.baseDelayMs * 2 ** retry;
+  // Up to 20% jitter so parallel clients do not retry in lockstep
+  return Math.min(exponential + Math.random() * exponential * 0.2, policy.maxDelayMs);
+}
+
+export function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Run stopped', 'AbortError'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Run stopped', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  policy: RetryPolicy,
+  opts: { signal?: AbortSignal; onRetry?: (retry: number, delayMs: number, error: ProviderHTTPError | NetworkError) => void } = {}
+): Promise<T> {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (retry >= policy.maxRetries || !isRetryable(error)) throw error;
+      const delay = backoffDelay(retry, policy, error instanceof ProviderHTTPError ? error.retryAfterMs : undefined);
+      opts.onRetry?.(retry + 1, delay, error);
+      await sleep(delay, opts.signal);
+    }
+  }
+}
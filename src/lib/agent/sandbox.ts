@@ -0,0 +1,81 @@
+// Execution backends on the dev server (tools/execution-backends.js): where
+// run_shell, test_runner and start_process commands run, whether they get
+// the network, and which environment variables they see. The dashboard keeps
+// one choice per workspace and sends it with every command; the server
+// refuses choices with less isolation than it allows.
+
+export type SandboxBackend = 'host' | 'bubblewrap' | 'unshare' | 'container';
+/** scrub drops credential-like variables, minimal keeps only PATH, HOME, locale and the like */
+export type EnvPolicy = 'scrub' | 'minimal' | 'inherit';
+
+export const SANDBOX_BACKENDS: SandboxBackend[] = ['host', 'bubblewrap', 'unshare', 'container'];
+export const ENV_POLICIES: EnvPolicy[] = ['scrub', 'minimal', 'inherit'];
+
+export interface ExecutionSettings {
+  /** auto uses the most isolated sandbox available, never host */
+  backend: SandboxBackend | 'auto';
+  network: boolean;
+  env: EnvPolicy;
+}
+
+export const DEFAULT_EXECUTION_SETTINGS: ExecutionSettings = { backend: 'auto', network: false, env: 'scrub' };
+
+export interface SandboxBackendInfo {
+  name: SandboxBackend;
+  available: boolean;
+  /** What it isolates, or why it is unavailable */
+  detail: string;
+  isolation: { filesystem: boolean; network: boolean; processes: boolean };
+}
+
+/** What a command actually ran under, as reported by the server */
+export interface SandboxInfo {
+  backend: SandboxBackend;
+  network: boolean;
+  env: EnvPolicy;
+}
+
+/** What the server lets requests ask for; network says whether they may turn it on */
+export interface SandboxLimits {
+  backends: SandboxBackend[];
+  network: boolean;
+  env: EnvPolicy[];
+}
+
+export interface SandboxBackendsInfo {
+  backends: SandboxBackendInfo[];
+  /** Server defaults (REFLEX_SANDBOX, REFLEX_SANDBOX_NETWORK, REFLEX_SANDBOX_ENV) */
+  default: ExecutionSettings;
+  /** REFLEX_SANDBOX_ALLOW, plus the defaults as a floor */
+  allowed: SandboxLimits;
+}
+
+export async function fetchSandboxBackends(): Promise<SandboxBackendsInfo> {
+  const res = await fetch('/api/sandbox/backends', { method: 'POST' });
+  const data = await res.json();
+  if (!res.ok || !data.success) throw new Error(data.error || 'sandbox backend request failed');
+  return { backends: data.backends, default: data.default, allowed: data.allowed };
+}
+
+// The server's order for auto, most isolated first; host has to be chosen explicitly
+const AUTO_ORDER: SandboxBackend[] = ['bubblewrap', 'container', 'unshare'];
+
+/** The backend a setting runs under; null when the chosen one is unavailable, or for auto when no allowed sandbox is */
+export function resolveBackend(backend: ExecutionSettings['backend'], backends: SandboxBackendInfo[], allowed: SandboxBackend[] = SANDBOX_BACKENDS): SandboxBackend | null {
+  const available = (name: SandboxBackend) => backends.some(b => b.name === name && b.available);
+  if (backend === 'auto') return AUTO_ORDER.find(name => allowed.includes(name) && available(name)) ?? null;
+  return available(backend) ? backend : null;
+}
+
+/** Why the server would refuse a setting, or null when it allows it */
+export function disallowedReason(settings: ExecutionSettings, allowed: SandboxLimits) {
+  if (settings.backend !== 'auto' && !allowed.backends.includes(settings.backend)) return `${settings.backend} is not allowed on this server`;
+  if (!allowed.env.includes(settings.env)) return `env ${settings.env} is less strict than the server allows`;
+  if (settings.network && !allowed.network) return 'network is off on this server';
+  return null;
+}
+
+/** "unshare, network off, env scrub" */
+export function describeSandbox(sandbox: SandboxInfo | ExecutionSettings) {
+  return `${sandbox.backend}, network ${sandbox.network ? 'on' : 'off'}, env ${sandbox.env}`;
+}
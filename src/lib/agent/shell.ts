@@ -0,0 +1,76 @@
+import { readSSE } from './stream';
+import { CommandPolicyError } from './command-policy';
+import type { ExecutionSettings, SandboxInfo } from './sandbox';
+
+// Client for the dev server's streaming shell endpoint (/api/shell/stream):
+// output arrives as it is produced and the call resolves when the process exits.
+
+export type ShellStreamName = 'stdout' | 'stderr';
+
+/** How much of each stream a result keeps; a chatty command's earlier output is dropped */
+export const MAX_RETAINED_OUTPUT_CHARS = 200_000;
+
+export interface ShellResult {
+  stdout: string;
+  stderr: string;
+  /** null when the process was killed by a signal */
+  exitCode: number | null;
+  signal: string | null;
+  durationMs: number;
+  /** Killed for running past its timeout; the output is whatever it printed until then */
+  timedOut: boolean;
+  /** Stopped by the server for printing more than its output cap (10 MB) */
+  truncated: boolean;
+  /** Characters dropped from the start of each stream to stay within MAX_RETAINED_OUTPUT_CHARS */
+  omitted: Record<ShellStreamName, number>;
+  sandbox: SandboxInfo;
+}
+
+export interface ShellStreamOptions {
+  signal?: AbortSignal;
+  onOutput?: (stream: ShellStreamName, chunk: string) => void;
+}
+
+/**
+ * approved tells the server's command policy the user approved the command;
+ * sandbox picks the execution backend (server defaults when omitted)
+ */
+export async function runShellStream(body: { cmd: string; cwd?: string; timeoutMs?: number; approved?: boolean; sandbox?: ExecutionSettings }, opts: ShellStreamOptions = {}): Promise<ShellResult> {
+  const response = await fetch('/api/shell/stream', {
+    method: 'POST',
+    signal: opts.signal,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  // Requests rejected before the process starts (bad cwd, missing cmd, command policy) come back as JSON
+  if (!response.ok || !response.headers.get('content-type')?.includes('text/event-stream')) {
+    const data = await response.json().catch(() => ({}));
+    if (data.policy) throw new CommandPolicyError(data.error, data.policy);
+    throw new Error(data.error || `shell request failed: ${response.status}`);
+  }
+
+  const output = { stdout: '', stderr: '' };
+  const omitted = { stdout: 0, stderr: 0 };
+  for await (const event of readSSE(response)) {
+    const data = JSON.parse(event.data);
+    if (event.event === 'stdout' || event.event === 'stderr') {
+      const text = output[event.event] + data.chunk;
+      const excess = Math.max(0, text.length - MAX_RETAINED_OUTPUT_CHARS);
+      output[event.event] = text.slice(excess);
+      omitted[event.event] += excess;
+      opts.onOutput?.(event.event, data.chunk);
+    } else if (event.event === 'exit') {
+      return { ...output, exitCode: data.exitCode, signal: data.signal, durationMs: data.durationMs, timedOut: !!data.timedOut, truncated: !!data.truncated, omitted, sandbox: data.sandbox };
+    } else if (event.event === 'error') {
+      throw new Error(data.error);
+    }
+  }
+  throw new Error('Shell stream ended before the process exited');
+}
+
+/** "exit 0", "exit 1", "timed out", "stopped: too much output" or "killed by SIGTERM" */
+export function describeExit(result: Pick<ShellResult, 'exitCode' | 'signal' | 'timedOut' | 'truncated'>) {
+  if (result.timedOut) return 'timed out';
+  if (result.truncated) return 'stopped: too much output';
+  return result.signal ? `killed by ${result.signal}` : `exit ${result.exitCode}`;
+}
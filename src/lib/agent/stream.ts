@@ -0,0 +1,157 @@
+import { getProvider, type LLMReply } from './providers';
+import { parseUsage, type TokenUsage } from './usage';
+
+// Server-sent event parsing and incremental reply assembly for streamed chat
+// completions (OpenAI-compatible "data:" chunks and Anthropic's event stream).
+
+export interface SSEEvent {
+  event?: string;
+  data: string;
+}
+
+/** A tool call whose arguments may still be arriving */
+export interface PartialToolCall {
+  id: string;
+  name: string;
+  argsText: string;
+}
+
+export interface PartialReply {
+  text: string;
+  toolCalls: PartialToolCall[];
+}
+
+// Fields of a streamed chunk in either dialect; which ones are set depends on the event
+interface StreamPayload {
+  type?: string;
+  index?: number;
+  error?: { message?: string };
+  message?: { usage?: unknown };
+  usage?: { output_tokens?: number };
+  content_block?: { type?: string; id?: string; name?: string };
+  delta?: { type?: string; text?: string; partial_json?: string };
+  x_groq?: { usage?: unknown };
+  choices?: Array<{
+    delta?: {
+      content?: string;
+      tool_calls?: Array<{ index?: number; id?: string; function?: { name?: string; arguments?: string } }>;
+    };
+  }>;
+}
+
+export async function* readSSE(response: Response): AsyncGenerator<SSEEvent> {
+  if (!response.body) throw new Error('Response has no body to stream');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: string | undefined;
+  let data: string[] = [];
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      if (line === '') {
+        // Blank line dispatches the accumulated event
+        if (data.length) yield { event, data: data.join('\n') };
+        event = undefined;
+        data = [];
+      } else if (line.startsWith(':')) {
+        continue;
+      } else if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+  }
+  if (data.length) yield { event, data: data.join('\n') };
+}
+
+const parseArgs = (text: string): Record<string, unknown> => {
+  if (!text.trim()) return {};
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const finalize = (partial: PartialReply, usage?: TokenUsage): LLMReply => ({
+  text: partial.text,
+  toolCalls: partial.toolCalls.map(c => ({ id: c.id, name: c.name, arguments: parseArgs(c.argsText) })),
+  usage,
+});
+
+/**
+ * Consumes a streamed chat response, calling onDelta with the reply assembled
+ * so far after every chunk, and resolves with the complete reply.
+ */
+export async function streamChatResponse(providerId: string, response: Response, onDelta: (partial: PartialReply) => void): Promise<LLMReply> {
+  const anthropic = getProvider(providerId)?.toolCalling === 'anthropic';
+  const partial: PartialReply = { text: '', toolCalls: [] };
+  // Anthropic addresses content blocks by index; map them to tool call slots
+  const blockToCall = new Map<number, PartialToolCall>();
+  let usage: TokenUsage | undefined;
+
+  for await (const evt of readSSE(response)) {
+    if (evt.data === '[DONE]') break;
+    let payload: StreamPayload;
+    try { payload = JSON.parse(evt.data); } catch { continue; }
+
+    if (anthropic) {
+      if (payload.type === 'error') throw new Error(payload.error?.message || 'Stream error');
+      // Input tokens arrive with message_start, the output count with message_delta
+      if (payload.type === 'message_start') usage = parseUsage(payload.message?.usage);
+      if (payload.type === 'message_delta' && payload.usage) {
+        usage = { promptTokens: usage?.promptTokens || 0, completionTokens: payload.usage.output_tokens || 0 };
+      }
+      if (payload.type === 'content_block_start' && payload.content_block?.type === 'tool_use') {
+        const call = { id: payload.content_block.id, name: payload.content_block.name, argsText: '' };
+        blockToCall.set(payload.index, call);
+        partial.toolCalls.push(call);
+      } else if (payload.type === 'content_block_delta') {
+        if (payload.delta?.type === 'text_delta') partial.text += payload.delta.text || '';
+        else if (payload.delta?.type === 'input_json_delta') {
+          const call = blockToCall.get(payload.index);
+          if (call) call.argsText += payload.delta.partial_json || '';
+        }
+      } else if (payload.type === 'message_stop') {
+        break;
+      }
+    } else {
+      if (payload.error) throw new Error(payload.error.message || 'Stream error');
+      // Usage rides on the final chunk (Groq nests it under x_groq)
+      usage = parseUsage(payload.usage ?? payload.x_groq?.usage) ?? usage;
+      const delta = payload.choices?.[0]?.delta;
+      if (!delta) continue;
+      if (delta.content) partial.text += delta.content;
+      for (const tc of delta.tool_calls || []) {
+        const index = tc.index ?? partial.toolCalls.length;
+        let call = partial.toolCalls[index];
+        if (!call) {
+          call = { id: tc.id || `call_${index}`, name: '', argsText: '' };
+          partial.toolCalls[index] = call;
+        }
+        if (tc.id) call.id = tc.id;
+        if (tc.function?.name) call.name += tc.function.name;
+        if (tc.function?.arguments) call.argsText += tc.function.arguments;
+      }
+    }
+    onDelta(partial);
+  }
+
+  return finalize(partial, usage);
+}
+
+/** Human-readable rendering of a partial reply for the activity log */
+export function renderPartialReply(partial: PartialReply) {
+  const calls = partial.toolCalls.map(c => `🛠️ ${c.name || '…'}(${c.argsText})`);
+  return [partial.text, ...calls].filter(Boolean).join('\n');
+}
@@ -0,0 +1,314 @@
+import { z } from 'zod';
+
+// Single source of truth for the agent's tool surface. The system prompt,
+// the per-tool guidance, the native function-calling schemas sent to
+// providers and argument validation are all derived from TOOL_SCHEMAS and
+// AGENT_TOOLS.
+
+export interface JSONSchema {
+  type: 'object' | 'string' | 'integer' | 'number' | 'boolean' | 'array';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  additionalProperties?: boolean;
+  minLength?: number;
+  minimum?: number;
+}
+
+// Argument schemas, validated before a call runs. Objects are strict so a
+// misspelled or invented field is reported instead of silently ignored.
+export const TOOL_SCHEMAS = {
+  read_file: z.object({
+    path: z.string().min(1).describe('File path relative to the workspace'),
+    offset: z.number().int().min(1).optional().describe('First line to read, 1-based (default 1)'),
+    limit: z.number().int().min(1).optional().describe('Number of lines to read (default 400)'),
+  }).strict(),
+  list_files: z.object({
+    path: z.string().optional().describe('Directory to list (default ".")'),
+    maxDepth: z.number().int().min(0).optional().describe('Recursion depth (default 2)'),
+  }).strict(),
+  glob: z.object({
+    pattern: z.string().min(1).describe('Glob pattern relative to the workspace, e.g. "src/**/*.tsx"'),
+    maxResults: z.number().int().min(1).optional().describe('Maximum paths to return (default 500)'),
+  }).strict(),
+  grep: z.object({
+    pattern: z.string().min(1).describe('Regular expression (or literal text when regex is false) to search for'),
+    include: z.string().optional().describe('Glob of files to search (default "**/*")'),
+    regex: z.boolean().optional().describe('Treat pattern as a regular expression (default true)'),
+    caseSensitive: z.boolean().optional().describe('Match case (default true)'),
+    contextLines: z.number().int().min(0).optional().describe('Lines of context around each match (default 2)'),
+    maxResults: z.number().int().min(1).optional().describe('Maximum matches to return (default 100)'),
+  }).strict(),
+  make_dir: z.object({
+    path: z.string().min(1).describe('Directory to create'),
+    recursive: z.boolean().optional().describe('Create parent directories (default true)'),
+  }).strict(),
+  write_file: z.object({
+    path: z.string().min(1).describe('File path relative to the workspace'),
+    content: z.string().describe('Full file content'),
+    overwrite: z.boolean().optional().describe('Replace an existing file (default true)'),
+  }).strict(),
+  edit_file: z.object({
+    path: z.string().min(1).describe('File path relative to the workspace'),
+    oldString: z.string().min(1).describe('Exact text to replace, including whitespace; must occur once unless replaceAll'),
+    newString: z.string().describe('Replacement text'),
+    replaceAll: z.boolean().optional().describe('Replace every occurrence (default false)'),
+  }).strict(),
+  apply_patch: z.object({
+    patch: z.string().min(1).describe('Unified diff (---/+++ headers and @@ hunks); may span several files'),
+    dryRun: z.boolean().optional().describe('Only check that every hunk applies (default false)'),
+  }).strict(),
+  move_path: z.object({
+    from: z.string().min(1).describe('Existing path'),
+    to: z.string().min(1).describe('Destination path'),
+    overwrite: z.boolean().optional().describe('Replace the destination if it exists (default true)'),
+  }).strict(),
+  delete_path: z.object({
+    path: z.string().min(1).describe('File or directory to delete'),
+    recursive: z.boolean().optional().describe('Delete directory contents (default true)'),
+  }).strict(),
+  run_shell: z.object({
+    cmd: z.string().min(1).describe('Shell command to run in the workspace'),
+    timeoutSeconds: z.number().int().min(1).optional().describe('Kill the command after this many seconds (default 120; the server caps it)'),
+  }).strict(),
+  start_process: z.object({
+    cmd: z.string().min(1).describe('Long-running command to start in the background, e.g. a dev server or watcher'),
+    name: z.string().min(1).optional().describe('Label shown in the Processes panel (default: the command)'),
+    waitSeconds: z.number().min(0).optional().describe('Seconds to wait for early output before returning (default 2, max 30)'),
+  }).strict(),
+  read_process_output: z.object({
+    id: z.string().min(1).describe('Process id returned by start_process, e.g. "p1"'),
+    tailLines: z.number().int().min(1).optional().describe('Return the last N lines instead of the output since your previous read'),
+  }).strict(),
+  send_process_input: z.object({
+    id: z.string().min(1).describe('Process id returned by start_process'),
+    input: z.string().describe('Text to write to the process\'s stdin'),
+    newline: z.boolean().optional().describe('Append a newline, like pressing Enter (default true)'),
+    eof: z.boolean().optional().describe('Close stdin after writing (default false)'),
+  }).strict(),
+  stop_process: z.object({
+    id: z.string().min(1).describe('Process id returned by start_process'),
+  }).strict(),
+  git_status: z.object({}).strict(),
+  git_diff: z.object({
+    staged: z.boolean().optional().describe('Show staged changes instead of unstaged ones (default false)'),
+    ref: z.string().min(1).optional().describe('Compare against this commit or branch instead of the index'),
+    paths: z.array(z.string().min(1)).optional().describe('Limit the diff to these paths'),
+  }).strict(),
+  git_log: z.object({
+    maxCount: z.number().int().min(1).optional().describe('Number of commits to show (default 20)'),
+    ref: z.string().min(1).optional().describe('Branch, tag or commit range to list (default HEAD)'),
+    path: z.string().min(1).optional().describe('Only commits touching this path'),
+  }).strict(),
+  git_branch: z.object({
+    name: z.string().min(1).optional().describe('Branch to create (or delete); omit to list branches'),
+    startPoint: z.string().min(1).optional().describe('Commit or branch the new branch starts from (default HEAD)'),
+    delete: z.boolean().optional().describe('Delete the named branch; fails if it is not merged (default false)'),
+  }).strict(),
+  git_checkout: z.object({
+    ref: z.string().min(1).optional().describe('Branch or commit to switch to, or to restore paths from'),
+    create: z.boolean().optional().describe('Create ref as a new branch and switch to it (default false)'),
+    paths: z.array(z.string().min(1)).optional().describe('Restore only these paths (discarding their changes) instead of switching'),
+  }).strict(),
+  git_stash: z.object({
+    action: z.enum(['push', 'pop', 'apply', 'drop', 'list']).optional().describe('Stash operation (default "push", which includes untracked files)'),
+    message: z.string().min(1).optional().describe('Description for push'),
+    index: z.number().int().min(0).optional().describe('Stash entry for pop, apply and drop (default 0)'),
+  }).strict(),
+  git_commit: z.object({
+    msg: z.string().min(1).describe('Conventional commit message'),
+    paths: z.array(z.string().min(1)).optional().describe('Stage and commit only these paths (default: all changes)'),
+  }).strict(),
+  test_runner: z.object({
+    cmd: z.string().optional().describe('Test command (default "npm test --silent")'),
+    timeoutSeconds: z.number().int().min(1).optional().describe('Kill the tests after this many seconds (default 120; the server caps it)'),
+  }).strict(),
+  done: z.object({
+    summary: z.string().describe('What was changed and how it was verified'),
+  }).strict(),
+};
+
+export type ToolName = keyof typeof TOOL_SCHEMAS;
+export type ToolArgs<T extends ToolName> = z.infer<(typeof TOOL_SCHEMAS)[T]>;
+/** A call whose arguments passed validation, narrowed by tool name */
+export type ValidToolCall = { [K in ToolName]: { tool: K; args: ToolArgs<K> } }[ToolName];
+
+/** JSON Schema for providers' function-calling APIs, derived from the zod schema */
+function toJSONSchema(schema: z.ZodTypeAny): JSONSchema {
+  const description = schema.description ? { description: schema.description } : {};
+  if (schema instanceof z.ZodOptional) return { ...toJSONSchema(schema.unwrap()), ...description };
+  if (schema instanceof z.ZodObject) {
+    const shape: Record<string, z.ZodTypeAny> = schema.shape;
+    return {
+      type: 'object',
+      ...description,
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJSONSchema(value)])),
+      required: Object.keys(shape).filter(key => !shape[key].isOptional()),
+      additionalProperties: false,
+    };
+  }
+  if (schema instanceof z.ZodString) {
+    return { type: 'string', ...description, ...(schema.minLength ? { minLength: schema.minLength } : {}) };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return { type: schema.isInt ? 'integer' : 'number', ...description, ...(schema.minValue !== null ? { minimum: schema.minValue } : {}) };
+  }
+  if (schema instanceof z.ZodEnum) return { type: 'string', ...description, enum: [...schema.options] };
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean', ...description };
+  if (schema instanceof z.ZodArray) return { type: 'array', ...description, items: toJSONSchema(schema.element) };
+  throw new Error(`Unsupported tool schema type: ${schema.constructor.name}`);
+}
+
+export interface ToolDefinition {
+  name: ToolName;
+  /** Guidance shown to the model, both in the prompt and as the function description */
+  description: string;
+  /** Example JSON call used by the text (non-native) protocol */
+  usage: string;
+  parameters: JSONSchema;
+}
+
+const defineTool = (name: ToolName, description: string, usage: string): ToolDefinition => ({
+  name,
+  description,
+  usage,
+  parameters: toJSONSchema(TOOL_SCHEMAS[name]),
+});
+
+export const AGENT_TOOLS: ToolDefinition[] = [
+  defineTool('read_file', 'Read file content before editing to maintain context and style. Output is line-numbered and paged; pass offset/limit to read further.',
+    '{"tool":"read_file","path":"<path>","offset":<line|optional>,"limit":<lines|optional>}'),
+  defineTool('list_files', 'Discover project structure before adding new files.',
+    '{"tool":"list_files","path":"<dir|optional>","maxDepth":<int|optional>}'),
+  defineTool('glob', 'Find files by name pattern. Skips .gitignore\'d paths, node_modules and build output.',
+    '{"tool":"glob","pattern":"src/**/*.ts"}'),
+  defineTool('grep', 'Search file contents by regex with context lines. Narrow with include; results are capped.',
+    '{"tool":"grep","pattern":"<regex>","include":"<glob|optional>","contextLines":2}'),
+  defineTool('make_dir', 'Create needed directories before writing files.',
+    '{"tool":"make_dir","path":"<dir>","recursive":true}'),
+  defineTool('write_file', 'Write full file content (idempotent). Include imports and error handling.',
+    '{"tool":"write_file","path":"<path>","content":"<full content>","overwrite":true}'),
+  defineTool('edit_file', 'Change part of an existing file by exact string replacement. Prefer this over write_file for small edits; copy oldString verbatim from read_file output (without the line-number prefix) with enough context to be unique.',
+    '{"tool":"edit_file","path":"<path>","oldString":"<exact existing text>","newString":"<replacement>"}'),
+  defineTool('apply_patch', 'Apply a unified diff across one or more files atomically: either every hunk applies or nothing changes. Use dryRun to check first; failures report each hunk.',
+    '{"tool":"apply_patch","patch":"--- a/<path>\\n+++ b/<path>\\n@@ -1,3 +1,3 @@\\n ...","dryRun":false}'),
+  defineTool('move_path', 'Rename/move paths carefully; preserve imports and references.',
+    '{"tool":"move_path","from":"<old>","to":"<new>","overwrite":true}'),
+  defineTool('delete_path', 'Delete only when certain. Prefer deprecation over removal.',
+    '{"tool":"delete_path","path":"<path>","recursive":true}'),
+  defineTool('run_shell', 'Run build/test/lint or local scripts. The result starts with the exit code; long-running commands are killed at the timeout, so start servers and watchers with start_process instead.',
+    '{"tool":"run_shell","cmd":"<command>"}'),
+  defineTool('start_process', 'Start a dev server, watcher or other long-running command in the background and keep working. Returns its id, early output and listening ports.',
+    '{"tool":"start_process","cmd":"npm run dev","name":"<label|optional>"}'),
+  defineTool('read_process_output', 'Read output a background process printed since your last read (or its last tailLines lines) and whether it is still running.',
+    '{"tool":"read_process_output","id":"p1"}'),
+  defineTool('send_process_input', 'Type into a background process (answer a prompt, send a REPL command). A newline is appended unless newline is false.',
+    '{"tool":"send_process_input","id":"p1","input":"<text>"}'),
+  defineTool('stop_process', 'Stop a background process and everything it started. Stop servers you started once you no longer need them.',
+    '{"tool":"stop_process","id":"p1"}'),
+  defineTool('git_status', 'Show the current branch, upstream tracking and changed files. Check before committing.',
+    '{"tool":"git_status"}'),
+  defineTool('git_diff', 'Show changes as a unified diff with per-file line counts. Review your edits before committing.',
+    '{"tool":"git_diff","staged":false,"paths":["<path|optional>"]}'),
+  defineTool('git_log', 'List recent commits (hash, date, author, subject).',
+    '{"tool":"git_log","maxCount":10,"path":"<path|optional>"}'),
+  defineTool('git_branch', 'List branches, or create/delete one by name.',
+    '{"tool":"git_branch","name":"<branch|optional>","startPoint":"<ref|optional>"}'),
+  defineTool('git_checkout', 'Switch branches (create with create:true), or restore paths to discard their changes.',
+    '{"tool":"git_checkout","ref":"<branch>","create":false}'),
+  defineTool('git_stash', 'Set aside uncommitted changes (push) and restore them later (pop/apply), or list/drop stashes.',
+    '{"tool":"git_stash","action":"push","message":"<optional>"}'),
+  defineTool('git_commit', 'Atomic commits with conventional messages (feat|fix|docs|refactor). Pass paths to commit only those files.',
+    '{"tool":"git_commit","msg":"<conventional commit message>","paths":["<path|optional>"]}'),
+  defineTool('test_runner', "Run the project's tests or a provided command.",
+    '{"tool":"test_runner","cmd":"<optional test command>"}'),
+  defineTool('done', 'Signal that the task is complete; summarize changes and verification.',
+    '{"tool":"done","summary":"<what was changed and how it was verified>"}'),
+];
+
+const isToolName = (name: string): name is ToolName => Object.prototype.hasOwnProperty.call(TOOL_SCHEMAS, name);
+
+/**
+ * Checks a call's name and arguments. The error lists every problem so the
+ * model can fix the call in one go.
+ */
+export function validateToolCall(tool: unknown, args: Record<string, unknown>): { ok: true; call: ValidToolCall } | { ok: false; error: string } {
+  if (typeof tool !== 'string' || !isToolName(tool)) {
+    return { ok: false, error: `Unknown tool "${String(tool)}". Available tools: ${Object.keys(TOOL_SCHEMAS).join(', ')}` };
+  }
+  const parsed = TOOL_SCHEMAS[tool].safeParse(args);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(i => `- ${i.path.length ? i.path.join('.') : '(arguments)'}: ${i.message}`);
+    return { ok: false, error: `Invalid arguments for ${tool}:\n${issues.join('\n')}\nExpected: ${AGENT_TOOLS.find(t => t.name === tool)?.usage}` };
+  }
+  return { ok: true, call: { tool, args: parsed.data } as ValidToolCall };
+}
+
+export const TOOL_NAMES = AGENT_TOOLS.map(t => t.name);
+
+export const TOOL_PROMPTS: Record<string, string> = Object.fromEntries(
+  AGENT_TOOLS.map(t => [t.name, t.description])
+);
+
+const TEXT_TOOL_SECTION = `Available Tools (JSON-only calls; no extra text):
+${AGENT_TOOLS.map(t => `- ${t.name}: ${t.usage}`).join('\n')}
+
+Response Policy:
+- Tool calls: emit ONLY compact JSON objects as above, one per action.`;
+
+const NATIVE_TOOL_SECTION = `Available Tools (call them through the function-calling interface):
+${AGENT_TOOLS.map(t => `- ${t.name}: ${t.description}`).join('\n')}
+
+Response Policy:
+- Tool calls: use native function calls, one per action. Do not print tool-call JSON in text.`;
+
+/**
+ * Builds the system prompt. Providers with native function calling get the
+ * tool list as guidance only; the rest are told to print JSON tool calls.
+ */
+export function buildSystemPrompt(nativeTools: boolean) {
+  return `
+You are Reflex Coder, a precise, instruction-following autonomous coding agent.
+
+Instruction Hierarchy (strict):
+1) User instructions and constraints
+2) Repo-specific conventions and existing patterns
+3) Language/framework best practices
+4) Your general preferences
+
+Operating Rules:
+- Restate the task and list explicit requirements you must satisfy.
+- Ask concise clarifying questions if anything is ambiguous; otherwise proceed.
+- Produce a short plan first, then execute it step-by-step using tools.
+- Prefer minimal, surgical changes aligned with the repo style.
+- Validate results (build/tests/lint) when feasible; report failures and next steps.
+- Never fabricate tools, files, or APIs. Use only the tools listed below.
+- Destructive calls (deletes, overwriting moves, shell commands) may wait for the user's approval. If a call is rejected or denied, read the reason and change course instead of retrying it unchanged.
+
+${nativeTools ? NATIVE_TOOL_SECTION : TEXT_TOOL_SECTION}
+- Tool results are sent back to you in the next message. Read them before deciding the next action.
+- When the task is complete (or you cannot make further progress), call done with a short summary.
+- Explanations: concise, action-focused natural language when not calling tools.
+- If the user requests code, prefer writing directly to files via write_file.
+- After changes, run tests or build if applicable.
+- Do not claim success until verification passes.
+
+Quality Bar:
+- Idiomatic, type-safe, well-structured code with error handling.
+- Clear, minimal documentation where helpful; avoid noisy comments.
+- Keep changes focused on the user’s request; avoid unrelated refactors.
+`;
+}
+
+export function toOpenAITools() {
+  return AGENT_TOOLS.map(t => ({
+    type: 'function' as const,
+    function: { name: t.name, description: t.description, parameters: t.parameters },
+  }));
+}
+
+export function toAnthropicTools() {
+  return AGENT_TOOLS.map(t => ({ name: t.name, description: t.description, input_schema: t.parameters }));
+}
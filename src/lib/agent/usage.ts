@@ -0,0 +1,140 @@
+// Token accounting for model calls: normalizes the usage blocks each API
+// dialect returns, prices them from a local table and sizes the context window.
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /** Counted locally because the provider did not report usage */
+  estimated?: boolean;
+}
+
+/** USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+interface ModelSpec {
+  /** Substring of the lowercased model id; the first matching entry wins */
+  match: string;
+  price?: ModelPrice;
+  contextWindow: number;
+}
+
+// More specific ids come before the families they belong to ("gpt-4o-mini"
+// before "gpt-4o" before "gpt-4"). Prices are list prices and may drift.
+const MODEL_SPECS: ModelSpec[] = [
+  { match: 'claude-opus-4', price: { input: 15, output: 75 }, contextWindow: 200_000 },
+  { match: 'claude-sonnet-4', price: { input: 3, output: 15 }, contextWindow: 200_000 },
+  { match: 'claude-3-opus', price: { input: 15, output: 75 }, contextWindow: 200_000 },
+  { match: 'claude-3-7-sonnet', price: { input: 3, output: 15 }, contextWindow: 200_000 },
+  { match: 'claude-3.7-sonnet', price: { input: 3, output: 15 }, contextWindow: 200_000 },
+  { match: 'claude-3-5-sonnet', price: { input: 3, output: 15 }, contextWindow: 200_000 },
+  { match: 'claude-3.5-sonnet', price: { input: 3, output: 15 }, contextWindow: 200_000 },
+  { match: 'claude-3-sonnet', price: { input: 3, output: 15 }, contextWindow: 200_000 },
+  { match: 'claude-3-5-haiku', price: { input: 0.8, output: 4 }, contextWindow: 200_000 },
+  { match: 'claude-3.5-haiku', price: { input: 0.8, output: 4 }, contextWindow: 200_000 },
+  { match: 'claude-3-haiku', price: { input: 0.25, output: 1.25 }, contextWindow: 200_000 },
+  { match: 'gpt-4o-mini', price: { input: 0.15, output: 0.6 }, contextWindow: 128_000 },
+  { match: 'gpt-4o', price: { input: 2.5, output: 10 }, contextWindow: 128_000 },
+  { match: 'gpt-4.1-nano', price: { input: 0.1, output: 0.4 }, contextWindow: 1_047_576 },
+  { match: 'gpt-4.1-mini', price: { input: 0.4, output: 1.6 }, contextWindow: 1_047_576 },
+  { match: 'gpt-4.1', price: { input: 2, output: 8 }, contextWindow: 1_047_576 },
+  { match: 'gpt-4-turbo', price: { input: 10, output: 30 }, contextWindow: 128_000 },
+  { match: 'gpt-4', price: { input: 30, output: 60 }, contextWindow: 8_192 },
+  { match: 'gpt-3.5-turbo', price: { input: 0.5, output: 1.5 }, contextWindow: 16_385 },
+  { match: 'o4-mini', price: { input: 1.1, output: 4.4 }, contextWindow: 200_000 },
+  { match: 'o3-mini', price: { input: 1.1, output: 4.4 }, contextWindow: 200_000 },
+  { match: 'llama-3.1-sonar-small', price: { input: 0.2, output: 0.2 }, contextWindow: 127_072 },
+  { match: 'llama-3.1-sonar-large', price: { input: 1, output: 1 }, contextWindow: 127_072 },
+  { match: 'llama-3.1-sonar-huge', price: { input: 5, output: 5 }, contextWindow: 127_072 },
+  { match: 'llama-3.3-70b', price: { input: 0.59, output: 0.79 }, contextWindow: 131_072 },
+  { match: 'llama-3.1-8b', price: { input: 0.05, output: 0.08 }, contextWindow: 131_072 },
+  { match: 'mixtral-8x7b', price: { input: 0.24, output: 0.24 }, contextWindow: 32_768 },
+];
+
+export const DEFAULT_CONTEXT_WINDOW = 128_000;
+
+/** Details a provider's model listing may carry (OpenRouter publishes both) */
+export interface ListedModel {
+  contextLength?: number;
+  price?: ModelPrice;
+}
+
+const specFor = (modelId: string) => {
+  const id = modelId.toLowerCase();
+  return MODEL_SPECS.find(s => id.includes(s.match));
+};
+
+/** Price per million tokens, or undefined when the model is not in the table */
+export function priceFor(modelId: string, listed?: ListedModel): ModelPrice | undefined {
+  return listed?.price ?? specFor(modelId)?.price;
+}
+
+export function contextWindowFor(modelId: string, listed?: ListedModel) {
+  return listed?.contextLength || specFor(modelId)?.contextWindow || DEFAULT_CONTEXT_WINDOW;
+}
+
+export function costOf(usage: TokenUsage, price: ModelPrice) {
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+// A provider's usage block as sent; counts are checked before use
+interface ProviderUsage {
+  prompt_tokens?: unknown;
+  completion_tokens?: unknown;
+  input_tokens?: unknown;
+  output_tokens?: unknown;
+}
+
+/** Reads the usage block of either dialect (prompt/completion or input/output tokens) */
+export function parseUsage(raw: unknown): TokenUsage | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const usage = raw as ProviderUsage;
+  const prompt = usage.prompt_tokens ?? usage.input_tokens;
+  const completion = usage.completion_tokens ?? usage.output_tokens;
+  if (typeof prompt !== 'number' && typeof completion !== 'number') return undefined;
+  return { promptTokens: typeof prompt === 'number' ? prompt : 0, completionTokens: typeof completion === 'number' ? completion : 0 };
+}
+
+/** Rough count (~4 characters per token) for servers that omit usage */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/** Running totals for an attempt, a run or all runs */
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** USD for the calls whose model had a known price */
+  cost: number;
+  /** Calls that could not be priced */
+  unpricedCalls: number;
+}
+
+export const EMPTY_USAGE_TOTALS: UsageTotals = { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpricedCalls: 0 };
+
+export function addUsage(totals: UsageTotals, usage: TokenUsage, cost: number | undefined): UsageTotals {
+  return {
+    calls: totals.calls + 1,
+    promptTokens: totals.promptTokens + usage.promptTokens,
+    completionTokens: totals.completionTokens + usage.completionTokens,
+    cost: totals.cost + (cost ?? 0),
+    unpricedCalls: totals.unpricedCalls + (cost === undefined ? 1 : 0),
+  };
+}
+
+export function formatTokens(n: number) {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(n >= 10_000_000 ? 0 : 1)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(n >= 10_000 ? 0 : 1)}k`;
+  return String(n);
+}
+
+export function formatCost(usd: number) {
+  return usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+/** One-line summary such as "12.3k in / 1.1k out · $0.0512" */
+export function formatUsageTotals(t: UsageTotals) {
+  const cost = t.unpricedCalls === t.calls && t.calls > 0 ? 'cost n/a' : `${formatCost(t.cost)}${t.unpricedCalls ? '+' : ''}`;
+  return `${formatTokens(t.promptTokens)} in / ${formatTokens(t.completionTokens)} out · ${cost}`;
+}
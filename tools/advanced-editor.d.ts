@@ -0,0 +1,27 @@
+// Types for the parts of AdvancedEditor used by the dev-server API (vite.config.ts)
+
+export interface EditResult {
+  success: boolean;
+  filePath: string;
+  backupPath: string | null;
+  changes: { linesAdded: number; linesRemoved: number; totalLines: number; charactersChanged: number };
+}
+
+export interface SmartReplaceOptions {
+  backup?: boolean;
+  keepBackup?: boolean;
+  strict?: boolean;
+  exact?: boolean;
+  replaceAll?: boolean;
+}
+
+export default class AdvancedEditor {
+  constructor(rootPath?: string);
+  rootPath: string;
+  smartReplace(
+    filePath: string,
+    searchPattern: string | RegExp,
+    replacement: string,
+    options?: SmartReplaceOptions
+  ): Promise<Omit<EditResult, 'changes'> & { replacements: number | EditResult['changes'] }>;
+}
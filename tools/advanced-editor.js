@@ -17,7 +17,24 @@ export default class AdvancedEditor extends FileUtilities {
      * Smart string replacement with context awareness
      */
     async smartReplace(filePath, searchPattern, replacement, options = {}) {
+        let exactReplacements = 0;
         const editFunction = (content) => {
+            // Exact mode: the string may span lines and must occur once unless replaceAll is set
+            if (options.exact && typeof searchPattern === 'string') {
+                if (!searchPattern) throw new Error('Search string must not be empty');
+                const count = content.split(searchPattern).length - 1;
+                if (count === 0) {
+                    throw new Error('Search string not found in file (it must match exactly, including whitespace and indentation)');
+                }
+                if (count > 1 && !options.replaceAll) {
+                    throw new Error(`Search string matches ${count} times; include more surrounding lines to make it unique, or use replaceAll`);
+                }
+                exactReplacements = options.replaceAll ? count : 1;
+                return options.replaceAll ?
+                    content.split(searchPattern).join(replacement) :
+                    content.replace(searchPattern, () => replacement);
+            }
+
             const lines = content.split('\n');
             let replacements = 0;
             
@@ -46,7 +63,7 @@ export default class AdvancedEditor extends FileUtilities {
         };
 
         const result = await this.editFile(filePath, editFunction, options);
-        return { ...result, replacements: result.changes };
+        return { ...result, replacements: options.exact ? exactReplacements : result.changes };
     }
 
     /**
@@ -0,0 +1,59 @@
+// Types for CommandPolicy as used by the dev-server API (vite.config.ts)
+
+export type PolicyDecision = 'allow' | 'ask' | 'deny';
+
+export declare const POLICY_DECISIONS: PolicyDecision[];
+
+export interface CommandRule {
+  id?: string;
+  decision: PolicyDecision;
+  category?: string;
+  reason?: string;
+  commands: string[];
+  subcommands?: string[];
+  flags?: string[];
+  args?: string[];
+  targets?: Array<'root' | 'home'>;
+  pipedTo?: string[];
+}
+
+export interface ParsedCommand {
+  name: string;
+  args: string[];
+  /** Programs this command's output reaches: later pipeline stages and substitution receivers */
+  pipedTo: string[];
+  text: string;
+}
+
+export interface PolicyViolation {
+  /** The simple command the rule matched */
+  command: string;
+  decision: 'ask' | 'deny';
+  rule: string;
+  category: string;
+  reason: string;
+}
+
+export interface PolicyVerdict {
+  decision: PolicyDecision;
+  command: string;
+  violations: PolicyViolation[];
+}
+
+export declare const DEFAULT_COMMAND_RULES: CommandRule[];
+
+export declare class CommandPolicyError extends Error {
+  constructor(verdict: PolicyVerdict);
+  verdict: PolicyVerdict;
+}
+
+export default class CommandPolicy {
+  constructor(options?: { rules?: CommandRule[]; defaultDecision?: PolicyDecision; source?: string | null });
+  static fromEnv(env?: NodeJS.ProcessEnv): CommandPolicy;
+  rules: CommandRule[];
+  defaultDecision: PolicyDecision;
+  source: string | null;
+  evaluate(cmd: string): PolicyVerdict;
+  check(cmd: string, options?: { approved?: boolean }): PolicyVerdict;
+  parse(cmd: string): { commands: ParsedCommand[]; error: string | null };
+}
@@ -0,0 +1,457 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Server-side policy for shell commands
+ * A command line is split into simple commands (across pipelines, lists,
+ * subshells, command substitutions and `sh -c` scripts). Each is matched
+ * against ordered rules by name, subcommand, flags and arguments; the first
+ * matching rule decides it. The strictest decision over all of them wins:
+ * deny, then ask, then allow.
+ */
+
+export const POLICY_DECISIONS = ['allow', 'ask', 'deny'];
+
+const SHELLS = ['sh', 'bash', 'zsh', 'dash', 'ksh', 'fish'];
+// Programs that run code they are given, including the shell's own `.`, `source` and `eval`
+const INTERPRETERS = [...SHELLS, 'python*', 'node', 'perl', 'ruby', 'php', 'source', '.', 'eval'];
+const NETWORK_COMMANDS = ['curl', 'wget', 'nc', 'ncat', 'netcat', 'socat', 'ssh', 'scp', 'sftp', 'rsync', 'ftp', 'telnet'];
+// Commands that run another command given as their arguments
+const WRAPPERS = ['sudo', 'doas', 'env', 'nohup', 'time', 'nice', 'exec', 'command', 'builtin', 'timeout', 'xargs', 'stdbuf', 'setsid', 'busybox', 'toybox'];
+// Words that open or close a compound command rather than name a program
+// Wrapper options that take a value, so `nice -n 10 cmd` runs cmd rather than 10
+const WRAPPER_OPTIONS = {
+    sudo: ['-u', '-g', '-C', '-D', '-h', '-p', '-r', '-t', '-U'],
+    doas: ['-u', '-C'],
+    env: ['-u', '-C', '--unset', '--chdir'],
+    nice: ['-n', '--adjustment'],
+    timeout: ['-s', '-k', '--signal', '--kill-after'],
+    xargs: ['-a', '-d', '-E', '-I', '-L', '-n', '-P', '-s'],
+    stdbuf: ['-i', '-o', '-e'],
+};
+const RESERVED_WORDS = ['!', '{', '}', 'if', 'then', 'else', 'elif', 'fi', 'do', 'done', 'while', 'until', 'esac'];
+const TARGETS = ['root', 'home'];
+
+/**
+ * Rules are checked in order and the first match decides a simple command.
+ * `commands` are globs on the program name; `subcommands` match any
+ * positional argument exactly; `flags` match when any is present (short
+ * flags may be combined, as in -rf); `args` are globs on positional
+ * arguments (`*` stops at "/", `**` does not); `targets` match a
+ * positional argument naming the root (`/`) or home directory (`~`, an
+ * ancestor of it), or everything in one (`/*`), once `//`, `.` and `..` are
+ * resolved; `pipedTo` matches when the command's output reaches one of
+ * those programs, through any later stage of its pipeline or a command or
+ * process substitution. A rule with several conditions needs all of them.
+ */
+export const DEFAULT_COMMAND_RULES = [
+    { id: 'privilege', decision: 'deny', category: 'privilege', commands: ['sudo', 'su', 'doas', 'pkexec'], reason: 'runs commands as another user' },
+    { id: 'remote-code', decision: 'deny', category: 'remote_code', commands: ['curl', 'wget'], pipedTo: INTERPRETERS, reason: 'runs downloaded content in an interpreter' },
+    { id: 'rm-root-or-home', decision: 'deny', category: 'destructive', commands: ['rm'], flags: ['-r', '-R', '--recursive'], targets: TARGETS, reason: 'recursively deletes the root or home directory' },
+    { id: 'system', decision: 'deny', category: 'destructive', commands: ['mkfs*', 'fdisk', 'parted', 'wipefs', 'shutdown', 'reboot', 'halt', 'poweroff'], reason: 'formats disks or shuts down the machine' },
+    { id: 'rm-recursive', decision: 'ask', category: 'destructive', commands: ['rm'], flags: ['-r', '-R', '--recursive'], reason: 'deletes directories recursively' },
+    { id: 'git-force-push', decision: 'ask', category: 'vcs', commands: ['git'], subcommands: ['push'], flags: ['--force', '-f', '--force-with-lease', '--mirror', '--delete', '-d'], reason: 'rewrites or deletes remote history' },
+    { id: 'git-force-refspec', decision: 'ask', category: 'vcs', commands: ['git'], subcommands: ['push'], args: ['+**', ':**'], reason: 'rewrites or deletes remote history' },
+    { id: 'git-reset-hard', decision: 'ask', category: 'vcs', commands: ['git'], subcommands: ['reset'], flags: ['--hard'], reason: 'discards uncommitted changes' },
+    { id: 'git-clean', decision: 'ask', category: 'vcs', commands: ['git'], subcommands: ['clean'], flags: ['-f', '--force'], reason: 'deletes untracked files' },
+    { id: 'js-install', decision: 'ask', category: 'package_install', commands: ['npm', 'pnpm', 'yarn', 'bun'], subcommands: ['install', 'i', 'add', 'ci'], reason: 'installs packages from the network' },
+    { id: 'package-install', decision: 'ask', category: 'package_install', commands: ['pip', 'pip3', 'pipx', 'uv', 'gem', 'cargo', 'go', 'composer'], subcommands: ['install', 'add', 'get', 'require'], reason: 'installs packages from the network' },
+    { id: 'system-install', decision: 'ask', category: 'package_install', commands: ['apt', 'apt-get', 'yum', 'dnf', 'apk', 'brew', 'snap'], subcommands: ['install', 'add'], reason: 'installs system packages' },
+    { id: 'js-run-package', decision: 'ask', category: 'package_install', commands: ['npx', 'pnpx', 'bunx'], reason: 'runs a package, downloading it if it is not installed' },
+    { id: 'js-exec-package', decision: 'ask', category: 'package_install', commands: ['npm', 'pnpm', 'yarn'], subcommands: ['exec', 'x', 'dlx'], reason: 'runs a package, downloading it if it is not installed' },
+    { id: 'network', decision: 'ask', category: 'network', commands: NETWORK_COMMANDS, reason: 'accesses the network' },
+    { id: 'git-remote', decision: 'ask', category: 'network', commands: ['git'], subcommands: ['clone', 'fetch', 'pull', 'push', 'ls-remote'], reason: 'talks to a remote repository' },
+    { id: 'container', decision: 'ask', category: 'container', commands: ['docker', 'podman', 'nerdctl'], subcommands: ['run', 'exec', 'create', 'start', 'build', 'pull', 'compose'], reason: 'runs containers, which can mount host paths and use the network' },
+    { id: 'eval', decision: 'ask', category: 'dynamic', commands: ['eval'], reason: 'runs code assembled at runtime' },
+];
+
+export class CommandPolicyError extends Error {
+    /**
+     * @param {{ decision: 'ask' | 'deny', command: string, violations: object[] }} verdict
+     */
+    constructor(verdict) {
+        const reasons = verdict.violations.map(v => `${v.command}: ${v.reason}`).join('; ');
+        super(`Command ${verdict.decision === 'deny' ? 'denied' : 'needs approval'} by the command policy (${reasons})`);
+        this.name = 'CommandPolicyError';
+        this.verdict = verdict;
+    }
+}
+
+export default class CommandPolicy {
+    /**
+     * @param {{ rules?: object[], defaultDecision?: 'allow' | 'ask' | 'deny', source?: string | null }} options
+     *   defaultDecision applies to commands no rule matches; 'ask' or 'deny'
+     *   turns the allow rules into an allowlist
+     */
+    constructor(options = {}) {
+        const { rules = DEFAULT_COMMAND_RULES, defaultDecision = 'allow', source = null } = options;
+        if (!POLICY_DECISIONS.includes(defaultDecision)) throw new Error(`Invalid default decision "${defaultDecision}"`);
+        rules.forEach((rule, i) => this._validateRule(rule, i));
+        this.rules = rules;
+        this.defaultDecision = defaultDecision;
+        this.source = source;
+    }
+
+    /**
+     * Defaults, or the JSON file named by REFLEX_COMMAND_POLICY:
+     * { "default": "allow", "rules": [...], "includeDefaults": true }.
+     * Its rules are checked before the built-in ones unless includeDefaults is false.
+     */
+    static fromEnv(env = process.env) {
+        const file = env.REFLEX_COMMAND_POLICY;
+        if (!file) return new CommandPolicy();
+        const source = path.resolve(file);
+        let config;
+        try {
+            config = JSON.parse(fs.readFileSync(source, 'utf-8'));
+        } catch (error) {
+            throw new Error(`Cannot load command policy ${source}: ${error.message}`);
+        }
+        const rules = [...(config.rules || []), ...(config.includeDefaults === false ? [] : DEFAULT_COMMAND_RULES)];
+        try {
+            return new CommandPolicy({ rules, defaultDecision: config.default, source });
+        } catch (error) {
+            throw new Error(`Invalid command policy ${source}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Decide a command line. Returns { decision, command, violations }, where
+     * each violation names the simple command, the rule and why it applies.
+     */
+    evaluate(cmd) {
+        const { commands, error } = this.parse(cmd);
+        const violations = [];
+        if (error) {
+            violations.push({ command: cmd, decision: 'ask', rule: 'unparsed', category: 'unparsed', reason: `could not be parsed (${error})` });
+        }
+        for (const command of commands) {
+            const rule = this.rules.find(r => this._matches(r, command));
+            if (rule) {
+                // sh -c "$(curl x)" reaches the same substitution through the outer line and the script
+                if (rule.decision !== 'allow' && !violations.some(v => v.command === command.text && v.rule === rule.id)) {
+                    violations.push({ command: command.text, decision: rule.decision, rule: rule.id, category: rule.category, reason: rule.reason });
+                }
+            } else if (this.defaultDecision !== 'allow') {
+                violations.push({ command: command.text, decision: this.defaultDecision, rule: 'default', category: 'unlisted', reason: 'not allowed by any rule' });
+            }
+        }
+        const decision = violations.some(v => v.decision === 'deny') ? 'deny' : violations.length ? 'ask' : 'allow';
+        return { decision, command: cmd, violations };
+    }
+
+    /**
+     * Throws CommandPolicyError unless the command is allowed; 'ask'
+     * commands pass once the caller says the user approved them
+     */
+    check(cmd, options = {}) {
+        const verdict = this.evaluate(cmd);
+        if (verdict.decision === 'deny' || (verdict.decision === 'ask' && !options.approved)) {
+            throw new CommandPolicyError(verdict);
+        }
+        return verdict;
+    }
+
+    /**
+     * Split a command line into simple commands:
+     * [{ name, args, pipedTo, text }], where pipedTo lists the programs that
+     * receive the command's output. Unbalanced quotes or substitutions are
+     * reported as error alongside whatever could be parsed.
+     */
+    parse(cmd) {
+        const { segments, substitutions, error } = this._tokenize(cmd);
+        const expanded = segments.map(segment => this._expand(segment.words));
+        // Every later stage of a pipeline receives the output, not just the next (curl x | tee f | sh)
+        let pipeline = [];
+        segments.forEach((segment, i) => {
+            pipeline.push(i);
+            if (segment.pipe) return;
+            pipeline.forEach((from, k) => {
+                const receivers = pipeline.slice(k + 1).map(j => this._program(expanded[j])).filter(Boolean);
+                for (const command of expanded[from]) command.pipedTo.push(...receivers);
+            });
+            pipeline = [];
+        });
+        const commands = expanded.flat();
+        let nestedError = error;
+        for (const { text, segment, output } of substitutions) {
+            const parsed = this.parse(text);
+            const outer = expanded[segment] || [];
+            // $(...), `...` and <(...) feed the command they appear in; >(...) is fed by it
+            if (output) {
+                const receivers = parsed.commands.map(c => c.name);
+                for (const command of outer) command.pipedTo.push(...receivers);
+            } else {
+                const receiver = this._program(outer);
+                if (receiver) for (const command of parsed.commands) command.pipedTo.push(receiver);
+            }
+            commands.push(...parsed.commands);
+            nestedError = nestedError || parsed.error;
+        }
+        return { commands, error: nestedError };
+    }
+
+    // Private helper methods
+    _validateRule(rule, index) {
+        const label = `rule ${index + 1}${rule && rule.id ? ` (${rule.id})` : ''}`;
+        if (!rule || typeof rule !== 'object') throw new Error(`${label} must be an object`);
+        if (!POLICY_DECISIONS.includes(rule.decision)) throw new Error(`${label}: decision must be one of ${POLICY_DECISIONS.join(', ')}`);
+        if (!Array.isArray(rule.commands) || rule.commands.length === 0) throw new Error(`${label}: commands must be a non-empty array`);
+        for (const key of ['subcommands', 'flags', 'args', 'targets', 'pipedTo']) {
+            if (rule[key] !== undefined && !Array.isArray(rule[key])) throw new Error(`${label}: ${key} must be an array`);
+        }
+        if (rule.targets && rule.targets.some(t => !TARGETS.includes(t))) throw new Error(`${label}: targets must be among ${TARGETS.join(', ')}`);
+        rule.id = rule.id || `rule-${index + 1}`;
+        rule.category = rule.category || 'custom';
+        rule.reason = rule.reason || `matches ${rule.id}`;
+    }
+
+    _matches(rule, command) {
+        if (!rule.commands.some(pattern => this._glob(pattern).test(command.name))) return false;
+        const { flags, positional } = this._splitArgs(command.args);
+        if (rule.subcommands && !positional.some(arg => rule.subcommands.includes(arg))) return false;
+        if (rule.flags && !rule.flags.some(flag => this._hasFlag(flags, flag))) return false;
+        if (rule.args && !positional.some(arg => rule.args.some(pattern => this._glob(pattern).test(arg)))) return false;
+        if (rule.targets && !positional.some(arg => this._isTarget(arg, rule.targets))) return false;
+        if (rule.pipedTo && !command.pipedTo.some(name => rule.pipedTo.some(pattern => this._glob(pattern).test(name)))) return false;
+        return true;
+    }
+
+    // Whether a path names the root, the home directory or one of its
+    // ancestors, or everything in one of them (a trailing /*)
+    _isTarget(arg, targets) {
+        const home = arg.match(/^(~|\$HOME|\$\{HOME\})(?=\/|$)/);
+        if (!home && !arg.startsWith('/')) return false;
+        const segments = [];
+        for (const segment of arg.slice(home ? home[0].length : 0).split('/')) {
+            if (segment === '..') segments.pop();
+            else if (segment !== '' && segment !== '.') segments.push(segment);
+        }
+        const dir = segments[segments.length - 1] === '*' ? segments.slice(0, -1) : segments;
+        // Climbing out of ~ pops nothing, so ~/.. is left as an empty path: home's parent or above
+        if (home) return targets.includes('home') && dir.length === 0;
+        if (dir.length === 0) return targets.includes('root');
+        const resolved = `/${dir.join('/')}`;
+        const homedir = os.homedir();
+        return targets.includes('home') && (homedir === resolved || homedir.startsWith(`${resolved}/`));
+    }
+
+    // The program a segment runs, inside any sudo/env/nohup wrapper; a
+    // substitution in command position runs its output as a command
+    _program(commands) {
+        const command = commands.find(c => !WRAPPERS.includes(c.name)) || commands[0];
+        if (!command) return null;
+        return /^(\$\(|`)/.test(command.name) ? 'sh' : command.name;
+    }
+
+    _splitArgs(args) {
+        const flags = [];
+        const positional = [];
+        let endOfFlags = false;
+        for (const arg of args) {
+            if (!endOfFlags && arg === '--') endOfFlags = true;
+            else if (!endOfFlags && arg.length > 1 && arg.startsWith('-')) flags.push(arg);
+            else positional.push(arg);
+        }
+        return { flags, positional };
+    }
+
+    _hasFlag(flags, flag) {
+        if (flag.startsWith('--')) return flags.some(f => f === flag || f.startsWith(`${flag}=`));
+        // A short flag may be combined with others: -rf contains -r and -f
+        return flags.some(f => !f.startsWith('--') && f.slice(1).includes(flag.slice(1)));
+    }
+
+    _glob(pattern) {
+        const source = pattern.split('**').map(part => part.split('*').map(s => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*')).join('.*');
+        return new RegExp(`^${source}$`);
+    }
+
+    // Turn one segment's words into simple commands, unwrapping `sudo cmd`,
+    // `env X=1 cmd`, `sh -c "script"` and the like into the commands they run
+    _expand(words) {
+        let rest = words;
+        while (rest.length && (RESERVED_WORDS.includes(rest[0]) || /^[A-Za-z_][A-Za-z0-9_]*=/.test(rest[0]))) rest = rest.slice(1);
+        if (rest.length === 0) return [];
+
+        // A substitution's text may contain slashes (a URL) that are not a program path
+        const name = /^(\$\(|`)/.test(rest[0]) ? rest[0] : path.basename(rest[0]);
+        const args = rest.slice(1);
+        const command = { name, args, pipedTo: [], text: rest.join(' ') };
+
+        if (SHELLS.includes(name)) {
+            // -c may be combined with other flags, as in bash -lc
+            const flag = args.findIndex(arg => /^-[A-Za-z]*c[A-Za-z]*$/.test(arg));
+            const script = args[flag + 1];
+            if (flag !== -1 && script !== undefined) return [command, ...this.parse(script).commands];
+        }
+        // python -m pip install x runs pip
+        if (/^python[0-9.]*$/.test(name)) {
+            const module = args.indexOf('-m');
+            if (module !== -1 && module + 1 < args.length) return [command, ...this._expand(args.slice(module + 1))];
+        }
+        if (WRAPPERS.includes(name)) {
+            const takesValue = WRAPPER_OPTIONS[name] || [];
+            let i = 0;
+            while (i < args.length && (args[i].startsWith('-') || /^[A-Za-z_][A-Za-z0-9_]*=/.test(args[i]))) {
+                if (takesValue.includes(args[i])) i++;
+                i++;
+            }
+            // timeout takes a duration before the command
+            if (name === 'timeout' && i < args.length) i++;
+            return [command, ...this._expand(args.slice(i))];
+        }
+        return [command];
+    }
+
+    // Shell-like tokenizer: quotes, escapes, comments, redirections,
+    // operators (; & && | || |& newline parentheses) and substitutions
+    _tokenize(cmd) {
+        const segments = [];
+        const substitutions = [];
+        let words = [];
+        let word = null;
+        let skipNext = false;
+        let error = null;
+
+        const endWord = () => {
+            if (word === null) return;
+            if (skipNext) skipNext = false; // redirection target
+            else words.push(word);
+            word = null;
+        };
+        const endSegment = (pipe) => {
+            endWord();
+            // A subshell or group piped as a whole, (curl x) | sh or { curl x; } | sh, pipes its last command
+            if (words.every(w => ['}', 'done', 'fi', 'esac'].includes(w))) {
+                if (pipe && segments.length) segments[segments.length - 1].pipe = true;
+            } else {
+                segments.push({ words, pipe });
+            }
+            words = [];
+        };
+        // Index just past the ")" closing a "(" at start, honouring quotes and nesting
+        const closingParen = (start) => {
+            let depth = 1;
+            let quote = null;
+            for (let j = start; j < cmd.length; j++) {
+                const c = cmd[j];
+                if (quote) {
+                    if (c === '\\' && quote === '"') j++;
+                    else if (c === quote) quote = null;
+                } else if (c === '\\') j++;
+                else if (c === '"' || c === "'") quote = c;
+                else if (c === '(') depth++;
+                else if (c === ')' && --depth === 0) return j + 1;
+            }
+            return -1;
+        };
+
+        for (let i = 0; i < cmd.length; i++) {
+            const c = cmd[i];
+            const next = cmd[i + 1];
+
+            if (c === ' ' || c === '\t') { endWord(); continue; }
+            if (c === '#' && word === null) {
+                while (i < cmd.length && cmd[i] !== '\n') i++;
+                endSegment(false);
+                continue;
+            }
+            if (c === '\\') {
+                if (next === '\n') { i++; continue; }
+                word = (word ?? '') + (next ?? '');
+                i++;
+                continue;
+            }
+            if (c === "'") {
+                const end = cmd.indexOf("'", i + 1);
+                if (end === -1) { error = 'unterminated single quote'; word = (word ?? '') + cmd.slice(i + 1); break; }
+                word = (word ?? '') + cmd.slice(i + 1, end);
+                i = end;
+                continue;
+            }
+            if (c === '"') {
+                let j = i + 1;
+                let text = '';
+                for (; j < cmd.length && cmd[j] !== '"'; j++) {
+                    if (cmd[j] === '\\' && j + 1 < cmd.length) { text += cmd[++j]; continue; }
+                    if (cmd[j] === '$' && cmd[j + 1] === '(') {
+                        const end = closingParen(j + 2);
+                        if (end === -1) { error = 'unterminated $('; j = cmd.length; break; }
+                        substitutions.push({ text: cmd.slice(j + 2, end - 1), segment: segments.length, output: false });
+                        text += cmd.slice(j, end);
+                        j = end - 1;
+                        continue;
+                    }
+                    if (cmd[j] === '`') {
+                        const end = cmd.indexOf('`', j + 1);
+                        if (end === -1) { error = 'unterminated backquote'; j = cmd.length; break; }
+                        substitutions.push({ text: cmd.slice(j + 1, end), segment: segments.length, output: false });
+                        text += cmd.slice(j, end + 1);
+                        j = end;
+                        continue;
+                    }
+                    text += cmd[j];
+                }
+                if (j >= cmd.length && !error) error = 'unterminated double quote';
+                word = (word ?? '') + text;
+                i = j;
+                continue;
+            }
+            if ((c === '$' || c === '<' || c === '>') && next === '(') {
+                // $(...) command substitution, <(...) and >(...) process substitution
+                const end = closingParen(i + 2);
+                if (end === -1) { error = 'unterminated substitution'; break; }
+                substitutions.push({ text: cmd.slice(i + 2, end - 1), segment: segments.length, output: c === '>' });
+                word = (word ?? '') + cmd.slice(i, end);
+                i = end - 1;
+                continue;
+            }
+            if (c === '`') {
+                const end = cmd.indexOf('`', i + 1);
+                if (end === -1) { error = 'unterminated backquote'; break; }
+                substitutions.push({ text: cmd.slice(i + 1, end), segment: segments.length, output: false });
+                word = (word ?? '') + cmd.slice(i, end + 1);
+                i = end;
+                continue;
+            }
+            if (c === '>' || c === '<') {
+                // A file descriptor number right before the operator belongs to it (2>, 1>&2)
+                if (word !== null && /^\d+$/.test(word)) word = null;
+                endWord();
+                while (cmd[i + 1] === '>' || cmd[i + 1] === '<' || cmd[i + 1] === '&') i++;
+                // >&2 duplicates a descriptor; anything else names a file
+                if (/\d/.test(cmd[i + 1] ?? '') && cmd[i] === '&') {
+                    while (/\d/.test(cmd[i + 1] ?? '')) i++;
+                } else {
+                    skipNext = true;
+                }
+                continue;
+            }
+            if (c === '|') {
+                const pipe = next !== '|';
+                if (next === '|' || next === '&') i++;
+                endSegment(pipe);
+                continue;
+            }
+            if (c === '&' && next === '>') {
+                // &> and &>> redirect both streams to a file
+                endWord();
+                i++;
+                if (cmd[i + 1] === '>') i++;
+                skipNext = true;
+                continue;
+            }
+            if (c === ';' || c === '&' || c === '\n' || c === '(' || c === ')') {
+                if (c === '&' && next === '&') i++;
+                if (c === ';' && next === ';') i++;
+                endSegment(false);
+                continue;
+            }
+            word = (word ?? '') + c;
+        }
+        endSegment(false);
+        return { segments, substitutions, error };
+    }
+}
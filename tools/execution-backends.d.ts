@@ -0,0 +1,78 @@
+// Types for ExecutionBackends as used by the dev-server API (vite.config.ts)
+import type { SpawnOptionsWithoutStdio } from 'child_process';
+
+export type BackendName = 'host' | 'bubblewrap' | 'unshare' | 'container';
+export type EnvPolicy = 'scrub' | 'minimal' | 'inherit';
+
+export declare const BACKEND_NAMES: BackendName[];
+export declare const ENV_POLICIES: EnvPolicy[];
+export declare const SECRET_ENV_PATTERNS: string[];
+export declare const MINIMAL_ENV_NAMES: string[];
+
+export declare function filterEnv(env: NodeJS.ProcessEnv, policy?: EnvPolicy, options?: { allow?: string[]; deny?: string[] }): NodeJS.ProcessEnv;
+
+export interface BackendInfo {
+  name: BackendName;
+  available: boolean;
+  detail: string;
+  isolation: { filesystem: boolean; network: boolean; processes: boolean };
+}
+
+/** What a command actually ran under */
+export interface SandboxInfo {
+  backend: BackendName;
+  network: boolean;
+  env: EnvPolicy;
+}
+
+/** Per-request choice; missing fields use the server defaults, which are also its floor */
+export interface SandboxRequest {
+  backend?: BackendName | 'auto';
+  network?: boolean;
+  env?: EnvPolicy;
+}
+
+/** What requests may ask for; network says whether they may turn it on */
+export interface SandboxLimits {
+  backends: BackendName[];
+  network: boolean;
+  env: EnvPolicy[];
+}
+
+export declare class SandboxPolicyError extends Error {
+  constructor(message: string);
+}
+
+export interface PreparedCommand {
+  command: string;
+  args: string[];
+  options: SpawnOptionsWithoutStdio & { cwd: string; env: NodeJS.ProcessEnv };
+  sandbox: SandboxInfo;
+  /** Run once the command has exited */
+  cleanup?: () => Promise<unknown>;
+}
+
+export default class ExecutionBackends {
+  constructor(options?: {
+    defaultBackend?: BackendName | 'auto';
+    allowedBackends?: BackendName[];
+    network?: boolean;
+    envPolicy?: EnvPolicy;
+    envAllow?: string[];
+    envDeny?: string[];
+    containerImage?: string;
+    containerRuntime?: string | null;
+  });
+  static fromEnv(env?: NodeJS.ProcessEnv): ExecutionBackends;
+  defaultBackend: BackendName | 'auto';
+  allowedBackends: BackendName[];
+  network: boolean;
+  envPolicy: EnvPolicy;
+  envAllow: string[];
+  envDeny: string[];
+  containerImage: string;
+  containerRuntime: string | null;
+  detect(): Promise<BackendInfo[]>;
+  allowed(): SandboxLimits;
+  prepare(cmd: string, options: { cwd: string; root: string; masked?: string[]; request?: SandboxRequest }): Promise<PreparedCommand>;
+}
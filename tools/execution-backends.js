@@ -0,0 +1,311 @@
+import { execFile } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+
+/**
+ * Execution backends for shell commands and background processes
+ * `host` runs commands directly; `bubblewrap` runs them in a namespace
+ * sandbox with a read-only root, a hidden home directory and only the
+ * workspace root writable; `unshare` isolates network and processes and
+ * hides the masked paths, but leaves the rest of the filesystem writable;
+ * `container` runs them in a throwaway docker/podman container with only the
+ * workspace root mounted. Every sandbox hides the masked paths (the
+ * workspace's .git, .env and the like). Sandboxes have no network unless
+ * asked for, and every backend passes commands an environment filtered by
+ * the env policy. `auto` never picks host: with no sandbox available,
+ * commands fail until host is chosen explicitly.
+ *
+ * The server's settings are a floor for requests: they may only pick an
+ * allowed backend, an env policy at least as strict and the network only
+ * when the server has it on.
+ */
+
+export const BACKEND_NAMES = ['host', 'bubblewrap', 'unshare', 'container'];
+// 'auto' picks the first available of these, strongest isolation first
+const AUTO_ORDER = ['bubblewrap', 'container', 'unshare'];
+
+export const ENV_POLICIES = ['scrub', 'minimal', 'inherit'];
+// Env policies from least to most strict
+const ENV_STRICTNESS = ['inherit', 'scrub', 'minimal'];
+
+// Variables that carry credentials; dropped by the scrub policy
+export const SECRET_ENV_PATTERNS = [
+    '*_KEY', '*_KEYS', '*_TOKEN', '*_TOKENS', '*SECRET*', '*PASSWORD*', '*PASSWD*', '*CREDENTIAL*', '*_AUTH', '*_AUTH_*',
+    'AWS_*', 'AZURE_*', 'GOOGLE_APPLICATION_CREDENTIALS', 'GH_*', 'GITHUB_TOKEN', 'NPM_TOKEN', 'NODE_AUTH_TOKEN',
+    'SSH_AUTH_SOCK', 'GPG_AGENT_INFO', 'DATABASE_URL', '*_DSN', 'REFLEX_*'
+];
+
+// The only variables the minimal policy keeps
+export const MINIMAL_ENV_NAMES = ['PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'LANG', 'LC_*', 'TERM', 'COLORTERM', 'TZ', 'TMPDIR', 'NODE_ENV', 'CI', 'NO_COLOR', 'FORCE_COLOR'];
+
+// Host-specific variables not forwarded into a container
+const CONTAINER_SKIPPED_ENV = ['PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'TMPDIR', 'PWD', 'OLDPWD', 'SHLVL', '_'];
+
+const globMatcher = (patterns) => {
+    const regexes = patterns.map(p => new RegExp(`^${p.split('*').map(s => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i'));
+    return (name) => regexes.some(r => r.test(name));
+};
+
+/**
+ * Environment for a command under an env policy. `allow` patterns keep
+ * variables the policy would drop; `deny` patterns drop more.
+ */
+export function filterEnv(env, policy = 'scrub', options = {}) {
+    const { allow = [], deny = [] } = options;
+    const allowed = globMatcher(allow);
+    const denied = globMatcher(deny);
+    const secret = globMatcher(SECRET_ENV_PATTERNS);
+    const minimal = globMatcher(MINIMAL_ENV_NAMES);
+    return Object.fromEntries(Object.entries(env).filter(([name]) => {
+        if (allowed(name)) return true;
+        if (denied(name)) return false;
+        if (policy === 'minimal') return minimal(name);
+        if (policy === 'scrub') return !secret(name);
+        return true;
+    }));
+}
+
+// Runs under `unshare --user --mount` as sh -c SCRIPT sh CMD [dir|file PATH]...:
+// an empty tmpfs over each masked directory and /dev/null over each masked
+// file, then CMD in a nested user and mount namespace, where those mounts are
+// locked and cannot be unmounted to reveal what they cover
+const UNSHARE_MASK_SCRIPT = [
+    'cmd=$1; shift',
+    'while [ $# -gt 1 ]; do',
+    '  if [ "$1" = dir ]; then mount -t tmpfs -o mode=700 reflex-mask "$2" || exit 126; else mount --bind /dev/null "$2" || exit 126; fi',
+    '  shift 2',
+    'done',
+    'exec unshare --user --map-root-user --mount -- /bin/sh -c "$cmd"'
+].join('\n');
+
+/** A request asking for less isolation than the server allows */
+export class SandboxPolicyError extends Error {
+    constructor(message) {
+        super(message);
+        this.name = 'SandboxPolicyError';
+    }
+}
+
+const run = (file, args) => new Promise(resolve => {
+    execFile(file, args, { timeout: 10000 }, (error, stdout, stderr) => resolve({ ok: !error, output: (stdout || stderr || error?.message || '').trim() }));
+});
+
+export default class ExecutionBackends {
+    /**
+     * @param {{ defaultBackend?: string, allowedBackends?: string[], network?: boolean, envPolicy?: string, envAllow?: string[], envDeny?: string[], containerImage?: string, containerRuntime?: string | null }} options
+     *   allowedBackends are the ones requests may pick (the default backend
+     *   always is; host only when listed); containerRuntime null tries
+     *   docker, then podman
+     */
+    constructor(options = {}) {
+        const {
+            defaultBackend = 'auto', allowedBackends = AUTO_ORDER, network = false, envPolicy = 'scrub', envAllow = [], envDeny = [],
+            containerImage = 'node:20-bookworm-slim', containerRuntime = null
+        } = options;
+        if (defaultBackend !== 'auto' && !BACKEND_NAMES.includes(defaultBackend)) throw new Error(`Unknown execution backend "${defaultBackend}"`);
+        const unknown = allowedBackends.find(name => !BACKEND_NAMES.includes(name));
+        if (unknown) throw new Error(`Unknown execution backend "${unknown}"`);
+        if (!ENV_POLICIES.includes(envPolicy)) throw new Error(`Unknown env policy "${envPolicy}"`);
+        this.defaultBackend = defaultBackend;
+        this.allowedBackends = defaultBackend === 'auto' || allowedBackends.includes(defaultBackend) ? allowedBackends : [...allowedBackends, defaultBackend];
+        this.network = network;
+        this.envPolicy = envPolicy;
+        this.envAllow = envAllow;
+        this.envDeny = envDeny;
+        this.containerImage = containerImage;
+        this.containerRuntime = containerRuntime;
+        this._detection = null;
+        this._runtime = null;
+    }
+
+    /**
+     * Defaults from REFLEX_SANDBOX (auto, host, bubblewrap, unshare or container),
+     * REFLEX_SANDBOX_ALLOW (comma-separated backends requests may pick),
+     * REFLEX_SANDBOX_NETWORK (on/off), REFLEX_SANDBOX_ENV (scrub, minimal or inherit),
+     * REFLEX_SANDBOX_ENV_ALLOW / _DENY (comma-separated globs),
+     * REFLEX_CONTAINER_IMAGE and REFLEX_CONTAINER_RUNTIME (docker or podman)
+     */
+    static fromEnv(env = process.env) {
+        const list = (value) => (value || '').split(',').map(v => v.trim()).filter(Boolean);
+        return new ExecutionBackends({
+            defaultBackend: env.REFLEX_SANDBOX || undefined,
+            allowedBackends: env.REFLEX_SANDBOX_ALLOW ? list(env.REFLEX_SANDBOX_ALLOW) : undefined,
+            network: env.REFLEX_SANDBOX_NETWORK === 'on',
+            envPolicy: env.REFLEX_SANDBOX_ENV || undefined,
+            envAllow: list(env.REFLEX_SANDBOX_ENV_ALLOW),
+            envDeny: list(env.REFLEX_SANDBOX_ENV_DENY),
+            containerImage: env.REFLEX_CONTAINER_IMAGE || undefined,
+            containerRuntime: env.REFLEX_CONTAINER_RUNTIME || null
+        });
+    }
+
+    /**
+     * Which backends work on this machine. Each is probed by running `true`
+     * inside it once; the result is cached.
+     * @returns {Promise<Array<{ name: string, available: boolean, detail: string, isolation: { filesystem: boolean, network: boolean, processes: boolean } }>>}
+     */
+    detect() {
+        if (!this._detection) this._detection = this._probeAll();
+        return this._detection;
+    }
+
+    /**
+     * What requests may ask for: { backends, network, env }, where network
+     * says whether they may turn it on and env lists the policies at least as
+     * strict as the server's
+     */
+    allowed() {
+        return { backends: this.allowedBackends, network: this.network, env: ENV_STRICTNESS.slice(ENV_STRICTNESS.indexOf(this.envPolicy)) };
+    }
+
+    /**
+     * How to spawn cmd: { command, args, options, sandbox, cleanup? }.
+     * `root` is the writable workspace root; `masked` are paths inside it
+     * that sandboxes hide; `request` may name a backend ('auto' or one of
+     * BACKEND_NAMES), network (boolean) and env policy. An unavailable
+     * backend is an error rather than a silent fallback; asking for less
+     * isolation than the server allows throws SandboxPolicyError.
+     */
+    async prepare(cmd, { cwd, root, masked = [], request = {} }) {
+        const backendName = request.backend || this.defaultBackend;
+        const envPolicy = request.env || this.envPolicy;
+        if (backendName !== 'auto' && !BACKEND_NAMES.includes(backendName)) throw new Error(`Unknown execution backend "${backendName}"`);
+        if (!ENV_POLICIES.includes(envPolicy)) throw new Error(`Unknown env policy "${envPolicy}"`);
+        const wantsNetwork = typeof request.network === 'boolean' ? request.network : this.network;
+        this._checkRequest(backendName, envPolicy, wantsNetwork);
+
+        const backends = await this.detect();
+        const candidates = AUTO_ORDER.filter(name => this.allowedBackends.includes(name));
+        const backend = backendName === 'auto' ?
+            candidates.map(name => backends.find(b => b.name === name)).find(b => b.available) :
+            backends.find(b => b.name === backendName);
+        if (!backend) {
+            const fallback = this.allowedBackends.includes('host') ? '; choose host explicitly to run commands unsandboxed' : '';
+            throw new Error(`No sandboxing execution backend is available (${candidates.join(', ') || 'none allowed'})${fallback}`);
+        }
+        if (!backend.available) throw new Error(`Execution backend ${backend.name} is not available: ${backend.detail}`);
+
+        const env = filterEnv(process.env, envPolicy, { allow: this.envAllow, deny: this.envDeny });
+        // The host cannot take the network away, so report what commands actually get
+        const network = backend.isolation.network ? wantsNetwork : true;
+        const sandbox = { backend: backend.name, network, env: envPolicy };
+
+        switch (backend.name) {
+            case 'bubblewrap':
+                return { command: 'bwrap', args: [...this._bubblewrapArgs(cwd, root, network, await this._maskKinds(masked)), '/bin/sh', '-c', cmd], options: { cwd, env }, sandbox };
+            case 'unshare': {
+                const masks = await this._maskKinds(masked);
+                return {
+                    command: 'unshare',
+                    args: [
+                        '--user', '--map-root-user', '--mount', '--pid', '--fork', '--mount-proc', ...(network ? [] : ['--net']),
+                        '--', '/bin/sh', '-c', UNSHARE_MASK_SCRIPT, 'sh', cmd, ...masks.flatMap(m => [m.directory ? 'dir' : 'file', m.path])
+                    ],
+                    options: { cwd, env },
+                    sandbox
+                };
+            }
+            case 'container':
+                return this._containerCommand(cmd, cwd, root, network, env, sandbox, await this._maskKinds(masked));
+            default:
+                return { command: cmd, args: [], options: { cwd, env, shell: true }, sandbox };
+        }
+    }
+
+    // Private helper methods
+    _checkRequest(backendName, envPolicy, network) {
+        if (backendName !== 'auto' && !this.allowedBackends.includes(backendName)) {
+            throw new SandboxPolicyError(`Execution backend ${backendName} is not allowed on this server (allowed: auto, ${this.allowedBackends.join(', ')})`);
+        }
+        if (ENV_STRICTNESS.indexOf(envPolicy) < ENV_STRICTNESS.indexOf(this.envPolicy)) {
+            throw new SandboxPolicyError(`Env policy ${envPolicy} is less strict than this server's ${this.envPolicy}`);
+        }
+        if (network && !this.network) throw new SandboxPolicyError('Network access is off on this server (REFLEX_SANDBOX_NETWORK)');
+    }
+
+    async _probeAll() {
+        const onPosix = process.platform !== 'win32';
+        const bwrap = onPosix ? await run('bwrap', ['--ro-bind', '/', '/', '--unshare-all', '--die-with-parent', 'true']) : { ok: false, output: 'not supported on Windows' };
+        // Masking needs mounts in the namespace and a nested one to lock them
+        const unshare = onPosix ?
+            await run('unshare', ['--user', '--map-root-user', '--mount', '--pid', '--fork', '--mount-proc', '--net', '--', '/bin/sh', '-c', UNSHARE_MASK_SCRIPT, 'sh', 'true', 'dir', '/tmp']) :
+            { ok: false, output: 'not supported on Windows' };
+        const runtime = onPosix ? await this._findContainerRuntime() : null;
+        this._runtime = runtime;
+        const missing = (probe, what) => (probe.ok ? what : probe.output || 'not installed');
+        return [
+            { name: 'host', available: true, detail: 'runs directly on this machine', isolation: { filesystem: false, network: false, processes: false } },
+            { name: 'bubblewrap', available: bwrap.ok, detail: missing(bwrap, 'read-only system, hidden home, workspace root writable'), isolation: { filesystem: true, network: true, processes: true } },
+            { name: 'unshare', available: unshare.ok, detail: missing(unshare, 'own network and process namespaces, protected paths hidden; rest of the filesystem writable'), isolation: { filesystem: false, network: true, processes: true } },
+            {
+                name: 'container',
+                available: !!runtime,
+                detail: runtime ? `${runtime} with ${this.containerImage}, workspace root mounted` : 'no docker or podman daemon found',
+                isolation: { filesystem: true, network: true, processes: true }
+            }
+        ];
+    }
+
+    async _findContainerRuntime() {
+        for (const runtime of this.containerRuntime ? [this.containerRuntime] : ['docker', 'podman']) {
+            if ((await run(runtime, ['info', '--format', '{{json .}}'])).ok) return runtime;
+        }
+        return null;
+    }
+
+    // Masked paths as { path, directory }; missing paths and symlinks are left out
+    async _maskKinds(masked) {
+        const kinds = await Promise.all(masked.map(async p => {
+            const stat = await fs.lstat(p).catch(() => null);
+            if (!stat || !(stat.isDirectory() || stat.isFile())) return null;
+            return { path: p, directory: stat.isDirectory() };
+        }));
+        return kinds.filter(Boolean);
+    }
+
+    _bubblewrapArgs(cwd, root, network, masks) {
+        const home = os.homedir();
+        return [
+            '--die-with-parent',
+            '--unshare-all',
+            ...(network ? ['--share-net'] : []),
+            '--ro-bind', '/', '/',
+            '--dev', '/dev',
+            '--proc', '/proc',
+            '--tmpfs', '/tmp',
+            // Hide the home directory (SSH keys, cloud credentials); later binds show the workspace again
+            '--tmpfs', home,
+            '--bind', root, root,
+            // Empty directories and an empty file over the protected paths
+            ...masks.flatMap(m => (m.directory ? ['--tmpfs', m.path] : ['--ro-bind', '/dev/null', m.path])),
+            '--chdir', cwd
+        ];
+    }
+
+    _containerCommand(cmd, cwd, root, network, env, sandbox, masks) {
+        const runtime = this._runtime;
+        const name = `reflex-${crypto.randomBytes(6).toString('hex')}`;
+        const forwarded = Object.keys(env).filter(key => !CONTAINER_SKIPPED_ENV.includes(key));
+        const user = typeof process.getuid === 'function' ? ['--user', `${process.getuid()}:${process.getgid()}`] : [];
+        return {
+            command: runtime,
+            args: [
+                'run', '--rm', '-i', '--init', '--name', name,
+                ...(network ? [] : ['--network', 'none']),
+                ...user,
+                '-v', `${root}:${root}`,
+                ...masks.flatMap(m => (m.directory ? ['--tmpfs', m.path] : ['-v', `/dev/null:${m.path}:ro`])),
+                '-w', cwd,
+                // `-e NAME` copies the value from the CLI's own environment
+                ...forwarded.flatMap(key => ['-e', key]),
+                this.containerImage,
+                '/bin/sh', '-c', cmd
+            ],
+            options: { cwd, env: process.env },
+            sandbox,
+            // Killing the CLI does not stop the container; remove it once the command is done
+            cleanup: () => run(runtime, ['rm', '-f', name])
+        };
+    }
+}
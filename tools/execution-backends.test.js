@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { execFile } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import ExecutionBackends, { SandboxPolicyError } from './execution-backends.js';
+
+let root;
+
+// Backends as detect() reports them, with only the named ones available
+const detected = (...available) => Promise.resolve(['host', 'bubblewrap', 'unshare', 'container'].map(name => ({
+    name,
+    available: name === 'host' || available.includes(name),
+    detail: '',
+    isolation: { filesystem: name !== 'host' && name !== 'unshare', network: name !== 'host', processes: name !== 'host' }
+})));
+
+const backendsWith = (available, options = {}) => {
+    const backends = new ExecutionBackends(options);
+    backends._detection = detected(...available);
+    backends._runtime = 'docker';
+    return backends;
+};
+
+beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'execution-backends-'));
+    await fs.mkdir(path.join(root, '.git'));
+    await fs.writeFile(path.join(root, '.env'), 'SECRET=1\n');
+});
+
+afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('ExecutionBackends.prepare', () => {
+    it('refuses auto when no sandbox is available', async () => {
+        await expect(backendsWith([]).prepare('true', { cwd: root, root })).rejects.toThrow(/No sandboxing execution backend/);
+        await expect(backendsWith([], { allowedBackends: ['unshare', 'host'] }).prepare('true', { cwd: root, root })).rejects.toThrow(/choose host explicitly/);
+    });
+
+    it('runs on the host only when asked to and allowed', async () => {
+        const prepared = await backendsWith([], { allowedBackends: ['host'] }).prepare('true', { cwd: root, root, request: { backend: 'host' } });
+        expect(prepared.sandbox).toMatchObject({ backend: 'host', network: true });
+        const byDefault = await backendsWith([], { defaultBackend: 'host' }).prepare('true', { cwd: root, root });
+        expect(byDefault.sandbox.backend).toBe('host');
+    });
+
+    it('picks the most isolated allowed sandbox for auto', async () => {
+        const prepared = await backendsWith(['unshare', 'container']).prepare('true', { cwd: root, root });
+        expect(prepared.sandbox.backend).toBe('container');
+        const limited = await backendsWith(['unshare', 'container'], { allowedBackends: ['unshare'] }).prepare('true', { cwd: root, root });
+        expect(limited.sandbox.backend).toBe('unshare');
+    });
+
+    it('refuses requests for less isolation than the server allows', async () => {
+        const backends = backendsWith(['bubblewrap', 'unshare'], { allowedBackends: ['bubblewrap'], envPolicy: 'scrub' });
+        const refused = (request) => expect(backends.prepare('true', { cwd: root, root, request })).rejects.toBeInstanceOf(SandboxPolicyError);
+        await refused({ backend: 'host' });
+        await refused({ backend: 'unshare' });
+        await refused({ env: 'inherit' });
+        await refused({ network: true });
+        const stricter = await backends.prepare('true', { cwd: root, root, request: { backend: 'bubblewrap', env: 'minimal', network: false } });
+        expect(stricter.sandbox).toEqual({ backend: 'bubblewrap', network: false, env: 'minimal' });
+        expect(backends.allowed()).toEqual({ backends: ['bubblewrap'], network: false, env: ['scrub', 'minimal'] });
+    });
+
+    it('reads the floor from the environment', () => {
+        const backends = ExecutionBackends.fromEnv({ REFLEX_SANDBOX: 'host', REFLEX_SANDBOX_ALLOW: 'bubblewrap', REFLEX_SANDBOX_ENV: 'minimal', REFLEX_SANDBOX_NETWORK: 'on' });
+        expect(backends.allowed()).toEqual({ backends: ['bubblewrap', 'host'], network: true, env: ['minimal'] });
+        expect(() => ExecutionBackends.fromEnv({ REFLEX_SANDBOX_ALLOW: 'chroot' })).toThrow(/chroot/);
+    });
+
+    it('hides masked paths under bubblewrap', async () => {
+        const masked = [path.join(root, '.git'), path.join(root, '.env'), path.join(root, 'missing')];
+        const { args } = await backendsWith(['bubblewrap']).prepare('true', { cwd: root, root, masked });
+        const bind = args.indexOf('--bind');
+        expect(args.slice(bind, bind + 8)).toEqual(['--bind', root, root, '--tmpfs', masked[0], '--ro-bind', '/dev/null', masked[1]]);
+        expect(args).not.toContain(masked[2]);
+    });
+
+    it('hides masked paths in a container', async () => {
+        const masked = [path.join(root, '.git'), path.join(root, '.env')];
+        const { args } = await backendsWith(['container']).prepare('true', { cwd: root, root, masked });
+        expect(args).toEqual(expect.arrayContaining(['--tmpfs', masked[0], '-v', `/dev/null:${masked[1]}:ro`]));
+    });
+
+    it('hides masked paths under unshare', async () => {
+        const masked = [path.join(root, '.git'), path.join(root, '.env')];
+        const { args } = await backendsWith(['unshare']).prepare('true', { cwd: root, root, masked });
+        expect(args.slice(0, 3)).toEqual(['--user', '--map-root-user', '--mount']);
+        expect(args.slice(-5)).toEqual(['true', 'dir', masked[0], 'file', masked[1]]);
+    });
+
+    it.runIf(process.platform === 'linux')('keeps masked paths hidden from commands under a real unshare', async () => {
+        const backends = new ExecutionBackends({ defaultBackend: 'unshare' });
+        const unshare = (await backends.detect()).find(b => b.name === 'unshare');
+        if (!unshare.available) return;
+        const masked = [path.join(root, '.git'), path.join(root, '.env')];
+        await fs.writeFile(path.join(root, '.git', 'HEAD'), 'ref: refs/heads/main\n');
+        const cmd = 'cat .env; ls .git; umount .env 2>/dev/null; umount .git 2>/dev/null; cat .env; ls .git; echo done > out.txt';
+        const { command, args, options } = await backends.prepare(cmd, { cwd: root, root, masked });
+        const { stdout } = await promisify(execFile)(command, args, options);
+        expect(stdout).toBe('');
+        expect(await fs.readFile(path.join(root, 'out.txt'), 'utf-8')).toBe('done\n');
+        expect(await fs.readFile(path.join(root, '.env'), 'utf-8')).toBe('SECRET=1\n');
+    });
+});
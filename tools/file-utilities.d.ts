@@ -0,0 +1,38 @@
+// Types for the parts of FileUtilities used by the dev-server API (vite.config.ts)
+
+export interface FoundFile {
+  path: string;
+  relativePath: string;
+  basename: string;
+  ext: string;
+}
+
+export interface FindOptions {
+  ignore?: string[];
+  dot?: boolean;
+  /** Also skip paths matched by the root .gitignore */
+  gitignore?: boolean;
+}
+
+export interface SearchMatch {
+  line: number;
+  content: string;
+  context: Array<{ lineNumber: number; content: string; isMatch: boolean }>;
+}
+
+export interface SearchResult {
+  file: string;
+  fullPath: string;
+  matches: SearchMatch[];
+}
+
+export default class FileUtilities {
+  constructor(rootPath?: string);
+  rootPath: string;
+  findFiles(pattern: string, options?: FindOptions): Promise<FoundFile[]>;
+  searchInFiles(
+    searchPattern: string | RegExp,
+    filePattern?: string,
+    options?: FindOptions & { contextLines?: number; maxResults?: number; filter?: (fullPath: string) => Promise<boolean> }
+  ): Promise<SearchResult[]>;
+}
@@ -19,16 +19,22 @@ export default class FileUtilities {
         const defaultOptions = {
             ignore: ['node_modules/**', '.git/**', 'dist/**', 'build/**'],
             dot: false,
+            gitignore: false,
             ...options
         };
 
         try {
+            const ignore = defaultOptions.gitignore ?
+                [...defaultOptions.ignore, ...await this._loadGitignore()] :
+                defaultOptions.ignore;
             const files = await glob(pattern, {
                 cwd: this.rootPath,
-                ignore: defaultOptions.ignore,
+                ignore,
                 dot: defaultOptions.dot,
+                nodir: true,
                 absolute: true
             });
+            files.sort();
 
             return files.map(file => ({
                 path: file,
@@ -43,27 +49,38 @@ export default class FileUtilities {
 
     /**
      * Content-based search across files
+     * `filter` (async, given the absolute path) skips files before they are read
      */
     async searchInFiles(searchPattern, filePattern = '**/*', options = {}) {
+        const { contextLines = 2, maxResults = Infinity, filter } = options;
         const files = await this.findFiles(filePattern, options);
         const results = [];
+        let found = 0;
+        // A global regex keeps lastIndex between test() calls; match each line independently
+        const matcher = searchPattern instanceof RegExp ?
+            new RegExp(searchPattern.source, searchPattern.flags.replace('g', '')) :
+            null;
 
         for (const file of files) {
+            if (found >= maxResults) break;
+            if (filter && !await filter(file.path)) continue;
             try {
                 const content = await fs.readFile(file.path, 'utf-8');
+                if (content.includes('\0')) continue; // binary
                 const lines = content.split('\n');
                 const matches = [];
 
-                lines.forEach((line, index) => {
-                    if (line.includes(searchPattern) || 
-                        (searchPattern instanceof RegExp && searchPattern.test(line))) {
+                for (const [index, line] of lines.entries()) {
+                    if (found >= maxResults) break;
+                    if (matcher ? matcher.test(line) : line.includes(searchPattern)) {
+                        found++;
                         matches.push({
                             line: index + 1,
                             content: line.trim(),
-                            context: this._getContext(lines, index, 2)
+                            context: this._getContext(lines, index, contextLines)
                         });
                     }
-                });
+                }
 
                 if (matches.length > 0) {
                     results.push({
@@ -228,6 +245,29 @@ export default class FileUtilities {
     }
 
     // Private helper methods
+    // .gitignore entries as glob ignore patterns (root file only; negations are not supported)
+    async _loadGitignore() {
+        let source;
+        try {
+            source = await fs.readFile(path.join(this.rootPath, '.gitignore'), 'utf-8');
+        } catch {
+            return [];
+        }
+        const patterns = [];
+        for (const raw of source.split(/\r?\n/)) {
+            const line = raw.trim();
+            if (!line || line.startsWith('#') || line.startsWith('!')) continue;
+            const dirOnly = line.endsWith('/');
+            let pattern = line.replace(/\/+$/, '');
+            // Patterns without an inner slash match at any depth; a leading slash anchors to the root
+            pattern = pattern.startsWith('/') ? pattern.slice(1) :
+                pattern.includes('/') ? pattern : `**/${pattern}`;
+            patterns.push(`${pattern}/**`);
+            if (!dirOnly) patterns.push(pattern);
+        }
+        return patterns;
+    }
+
     _getContext(lines, centerIndex, contextLines) {
         const start = Math.max(0, centerIndex - contextLines);
         const end = Math.min(lines.length, centerIndex + contextLines + 1);
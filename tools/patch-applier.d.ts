@@ -0,0 +1,42 @@
+// Types for PatchApplier as used by the dev-server API (vite.config.ts)
+
+import type WorkspaceJail from './workspace-jail.js';
+
+export interface HunkReport {
+  index: number;
+  applied: boolean;
+  oldStart: number;
+  /** 1-based line where the hunk was applied */
+  line?: number;
+  /** Lines between the header's position and where the hunk matched */
+  offset?: number;
+  /** Context lines ignored at each end to find a match */
+  fuzz?: number;
+  /** Matched only when leading/trailing whitespace was ignored */
+  whitespace?: boolean;
+  error?: string;
+}
+
+export interface FilePatchReport {
+  path: string;
+  status: 'created' | 'deleted' | 'modified';
+  hunks: HunkReport[];
+  error?: string;
+}
+
+export interface PatchResult {
+  success: boolean;
+  applied: boolean;
+  dryRun: boolean;
+  files: FilePatchReport[];
+  /** Set when writing failed after every hunk applied; the changes were rolled back */
+  error?: string;
+  /** Files the rollback could not restore */
+  rollbackErrors?: Array<{ path: string; error: string }>;
+}
+
+export default class PatchApplier {
+  constructor(rootPath?: string, options?: { jail?: WorkspaceJail });
+  rootPath: string;
+  applyPatch(patchText: string, options?: { dryRun?: boolean; fuzz?: number }): Promise<PatchResult>;
+}
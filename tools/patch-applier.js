@@ -0,0 +1,311 @@
+import fs from 'fs/promises';
+import path from 'path';
+import FileUtilities from './file-utilities.js';
+
+/**
+ * Unified diff application for multi-file patches
+ * Hunks are located with an offset search and optional fuzz; all files are
+ * patched in memory first, so a failed hunk leaves the tree untouched.
+ */
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+export default class PatchApplier extends FileUtilities {
+    /**
+     * @param {{ jail?: import('./workspace-jail.js').default }} options
+     *   with a jail, every path in the patch is checked before it is read or written
+     */
+    constructor(rootPath = process.cwd(), options = {}) {
+        super(rootPath);
+        this.jail = options.jail || null;
+    }
+
+    /**
+     * Parse a unified diff into per-file hunks
+     */
+    parsePatch(patchText) {
+        const lines = patchText.replace(/\r\n/g, '\n').split('\n');
+        const files = [];
+        let file = null;
+        let hunk = null;
+
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+
+            if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+                file = {
+                    oldPath: this._stripPrefix(line.slice(4)),
+                    newPath: this._stripPrefix(lines[i + 1].slice(4)),
+                    hunks: []
+                };
+                files.push(file);
+                hunk = null;
+                i++;
+                continue;
+            }
+
+            const header = line.match(HUNK_HEADER);
+            if (header) {
+                if (!file) throw new Error(`Hunk at line ${i + 1} has no ---/+++ file header`);
+                hunk = {
+                    oldStart: Number(header[1]),
+                    oldLines: header[2] === undefined ? 1 : Number(header[2]),
+                    newStart: Number(header[3]),
+                    newLines: header[4] === undefined ? 1 : Number(header[4]),
+                    lines: []
+                };
+                file.hunks.push(hunk);
+                continue;
+            }
+
+            if (!hunk) continue; // diff --git, index, mode lines and prose between files
+
+            if (line.startsWith('\\')) {
+                // "\ No newline at end of file" applies to the line before it
+                const previous = hunk.lines[hunk.lines.length - 1];
+                if (previous) previous.noEol = true;
+            } else if (line[0] === ' ' || line[0] === '-' || line[0] === '+') {
+                hunk.lines.push({ op: line[0], text: line.slice(1) });
+            } else if (line === '' && !this._hunkComplete(hunk)) {
+                // Some tools drop the space on empty context lines
+                hunk.lines.push({ op: ' ', text: '' });
+            } else {
+                hunk = null;
+            }
+        }
+
+        if (files.length === 0) throw new Error('No file headers (---/+++) found in patch');
+        return files;
+    }
+
+    /**
+     * Apply a multi-file patch. With dryRun nothing is written; otherwise
+     * files are only written when every hunk applies. Sections apply in
+     * order, so a later section for the same file sees the earlier one's
+     * changes. A failed write is rolled back; the result then carries
+     * `error`, plus `rollbackErrors` for files that could not be restored.
+     */
+    async applyPatch(patchText, options = {}) {
+        const { dryRun = false, fuzz = 2 } = options;
+        const files = this.parsePatch(patchText);
+        const reports = [];
+        // Working copy of every file the patch touches: full path -> { exists, content, original }
+        const tree = new Map();
+
+        for (const file of files) {
+            const isCreate = file.oldPath === null;
+            const isDelete = file.newPath === null;
+            const relativePath = isDelete ? file.oldPath : file.newPath;
+            const report = {
+                path: relativePath,
+                status: isCreate ? 'created' : isDelete ? 'deleted' : 'modified',
+                hunks: []
+            };
+            reports.push(report);
+
+            let oldFull = null;
+            let newFull = null;
+            try {
+                if (!isCreate) oldFull = await this._resolvePath(file.oldPath);
+                if (!isDelete) newFull = await this._resolvePath(file.newPath);
+            } catch (error) {
+                report.error = error.message;
+                continue;
+            }
+
+            let source = null;
+            let target = null;
+            try {
+                if (oldFull) source = await this._load(tree, oldFull);
+                if (newFull) target = await this._load(tree, newFull);
+            } catch (error) {
+                report.error = `Cannot read ${relativePath}: ${error.message}`;
+                continue;
+            }
+            if (source && !source.exists) {
+                report.error = `Cannot read ${file.oldPath}: no such file`;
+                continue;
+            }
+            // Creations and renames must not replace a file that is already there
+            if (target && target !== source && target.exists) {
+                report.error = `${file.newPath} already exists`;
+                continue;
+            }
+
+            const { content, hunks } = this._applyHunks(source ? source.content : '', file.hunks, fuzz);
+            report.hunks = hunks;
+            if (hunks.some(h => !h.applied)) continue;
+
+            if (source && source !== target) Object.assign(source, { exists: false, content: '' });
+            if (target) Object.assign(target, { exists: true, content });
+        }
+
+        const failed = reports.some(r => r.error || r.hunks.some(h => !h.applied));
+        if (failed || dryRun) {
+            return { success: !failed, applied: false, dryRun, files: reports };
+        }
+
+        const { error, rollbackErrors } = await this._commitWrites(tree);
+        if (error) {
+            return { success: false, applied: false, dryRun, files: reports, error, ...(rollbackErrors.length ? { rollbackErrors } : {}) };
+        }
+        return { success: true, applied: true, dryRun, files: reports };
+    }
+
+    // Private helper methods
+    async _resolvePath(relativePath) {
+        return this.jail ?
+            this.jail.resolve(this.rootPath, relativePath) :
+            path.resolve(this.rootPath, relativePath);
+    }
+
+    _hunkComplete(hunk) {
+        const oldSeen = hunk.lines.filter(l => l.op !== '+').length;
+        const newSeen = hunk.lines.filter(l => l.op !== '-').length;
+        return oldSeen >= hunk.oldLines && newSeen >= hunk.newLines;
+    }
+
+    _stripPrefix(rawPath) {
+        // Drop timestamps ("--- file\t2024-01-01 ...") and the a/ b/ prefixes git adds
+        const cleaned = rawPath.split('\t')[0].trim();
+        if (cleaned === '/dev/null') return null;
+        return cleaned.replace(/^[ab]\//, '');
+    }
+
+    _applyHunks(original, hunks, maxFuzz) {
+        const eol = original.includes('\r\n') ? '\r\n' : '\n';
+        let endsWithNewline = original === '' || original.endsWith('\n');
+        const lines = original === '' ? [] : original.replace(/\r?\n$/, '').split(/\r?\n/);
+        const results = [];
+        let lineDelta = 0;
+        let searchFrom = 0;
+
+        hunks.forEach((hunk, index) => {
+            const match = this._locateHunk(lines, hunk, lineDelta, searchFrom, maxFuzz);
+            if (!match) {
+                results.push({ index: index + 1, applied: false, oldStart: hunk.oldStart, error: 'context not found' });
+                return;
+            }
+
+            const { position, oldLines, newLines, fuzz, whitespace } = match;
+            lines.splice(position, oldLines.length, ...newLines.map(l => l.text));
+            results.push({
+                index: index + 1,
+                applied: true,
+                oldStart: hunk.oldStart,
+                line: position + 1,
+                offset: position - (Math.max(hunk.oldStart, 1) - 1 + lineDelta) - match.trimmedLeading,
+                fuzz,
+                whitespace
+            });
+            lineDelta += newLines.length - oldLines.length;
+            searchFrom = position + newLines.length;
+
+            // Track end-of-file newline changes when the hunk reaches the last line
+            if (position + newLines.length === lines.length) {
+                const lastNew = newLines[newLines.length - 1];
+                const lastOld = oldLines[oldLines.length - 1];
+                if (lastNew?.noEol) endsWithNewline = false;
+                else if (lastOld?.noEol) endsWithNewline = true;
+            }
+        });
+
+        const body = lines.join(eol);
+        const content = lines.length && endsWithNewline ? body + eol : body;
+        return { content, hunks: results };
+    }
+
+    _locateHunk(lines, hunk, lineDelta, searchFrom, maxFuzz) {
+        const leadingContext = hunk.lines.findIndex(l => l.op !== ' ');
+        const trailingContext = [...hunk.lines].reverse().findIndex(l => l.op !== ' ');
+
+        // Each fuzz level ignores one more line of leading and trailing context
+        for (let fuzz = 0; fuzz <= maxFuzz; fuzz++) {
+            const dropLeading = Math.min(fuzz, Math.max(0, leadingContext));
+            const dropTrailing = Math.min(fuzz, Math.max(0, trailingContext));
+            if (fuzz > 0 && dropLeading === 0 && dropTrailing === 0) break;
+
+            const body = hunk.lines.slice(dropLeading, hunk.lines.length - dropTrailing);
+            const oldLines = body.filter(l => l.op !== '+');
+            const newLines = body.filter(l => l.op !== '-');
+            const expected = Math.max(0, hunk.oldStart - 1 + lineDelta + dropLeading);
+
+            for (const whitespace of [false, true]) {
+                const position = this._search(lines, oldLines.map(l => l.text), expected, searchFrom, whitespace);
+                if (position !== -1) {
+                    return { position, oldLines, newLines, fuzz, whitespace, trimmedLeading: dropLeading };
+                }
+            }
+        }
+        return null;
+    }
+
+    _search(lines, needle, expected, searchFrom, ignoreWhitespace) {
+        const last = lines.length - needle.length;
+        if (last < searchFrom) return -1;
+        const same = ignoreWhitespace ?
+            (a, b) => a.trim() === b.trim() :
+            (a, b) => a === b;
+        const matchesAt = (pos) => needle.every((text, i) => same(lines[pos + i], text));
+
+        if (needle.length === 0) return Math.min(Math.max(expected, searchFrom), lines.length);
+
+        // Walk outward from the expected line so the nearest match wins
+        const start = Math.min(Math.max(expected, searchFrom), last);
+        for (let distance = 0; start - distance >= searchFrom || start + distance <= last; distance++) {
+            if (start + distance <= last && matchesAt(start + distance)) return start + distance;
+            if (distance > 0 && start - distance >= searchFrom && matchesAt(start - distance)) return start - distance;
+        }
+        return -1;
+    }
+
+    // The working copy of fullPath, read from disk the first time the patch touches it
+    async _load(tree, fullPath) {
+        if (!tree.has(fullPath)) {
+            let original = null;
+            try {
+                original = await fs.readFile(fullPath, 'utf-8');
+            } catch (error) {
+                if (error.code !== 'ENOENT' && error.code !== 'ENOTDIR') throw error;
+            }
+            tree.set(fullPath, { exists: original !== null, content: original ?? '', original });
+        }
+        return tree.get(fullPath);
+    }
+
+    async _commitWrites(tree) {
+        const changed = [...tree.entries()].filter(([, file]) => (file.exists ? file.content !== file.original : file.original !== null));
+        const touched = [];
+        try {
+            for (const [fullPath, file] of changed) {
+                touched.push([fullPath, file]);
+                if (file.exists) {
+                    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+                    await fs.writeFile(fullPath, file.content);
+                } else {
+                    await fs.unlink(fullPath);
+                }
+            }
+            return { error: null, rollbackErrors: [] };
+        } catch (error) {
+            // Put back every file touched so far so the patch stays all-or-nothing
+            const rollbackErrors = [];
+            for (const [fullPath, file] of touched.reverse()) {
+                try {
+                    if (file.original === null) {
+                        // ENOTDIR: a parent is a file, so this one was never written
+                        await fs.rm(fullPath, { force: true }).catch(e => { if (e.code !== 'ENOTDIR') throw e; });
+                    } else {
+                        await fs.writeFile(fullPath, file.original);
+                    }
+                } catch (restoreError) {
+                    rollbackErrors.push({ path: path.relative(this.rootPath, fullPath), error: restoreError.message });
+                }
+            }
+            const outcome = rollbackErrors.length ?
+                `; ${rollbackErrors.length} file(s) could not be restored and may be left changed` :
+                '; all changes were rolled back';
+            return { error: `Patch write failed: ${error.message}${outcome}`, rollbackErrors };
+        }
+    }
+}
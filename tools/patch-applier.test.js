@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import PatchApplier from './patch-applier.js';
+
+let root;
+const read = (rel) => fs.readFile(path.join(root, rel), 'utf-8');
+const exists = (rel) => fs.access(path.join(root, rel)).then(() => true, () => false);
+
+beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'patch-applier-'));
+});
+
+afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('PatchApplier.applyPatch', () => {
+    it('modifies a file', async () => {
+        await fs.writeFile(path.join(root, 'a.txt'), 'one\ntwo\nthree\n');
+        const patch = '--- a/a.txt\n+++ b/a.txt\n@@ -1,3 +1,3 @@\n one\n-two\n+TWO\n three\n';
+        const result = await new PatchApplier(root).applyPatch(patch);
+        expect(result.success).toBe(true);
+        expect(await read('a.txt')).toBe('one\nTWO\nthree\n');
+    });
+
+    it('creates a new file', async () => {
+        const patch = '--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1,2 @@\n+hello\n+world\n';
+        const result = await new PatchApplier(root).applyPatch(patch);
+        expect(result.files[0].status).toBe('created');
+        expect(await read('new.txt')).toBe('hello\nworld\n');
+    });
+
+    it('refuses to create a file that already exists', async () => {
+        await fs.writeFile(path.join(root, 'keep.txt'), 'original\n');
+        const patch = '--- /dev/null\n+++ b/keep.txt\n@@ -0,0 +1 @@\n+replacement\n';
+        const result = await new PatchApplier(root).applyPatch(patch);
+        expect(result.success).toBe(false);
+        expect(result.files[0].error).toMatch(/already exists/);
+        expect(await read('keep.txt')).toBe('original\n');
+    });
+
+    it('applies two sections for the same file in order', async () => {
+        await fs.writeFile(path.join(root, 'a.txt'), 'one\ntwo\n');
+        const patch = [
+            '--- a/a.txt', '+++ b/a.txt', '@@ -1,2 +1,2 @@', '-one', '+ONE', ' two',
+            '--- a/a.txt', '+++ b/a.txt', '@@ -1,2 +1,2 @@', ' ONE', '-two', '+TWO', ''
+        ].join('\n');
+        const result = await new PatchApplier(root).applyPatch(patch);
+        expect(result.success).toBe(true);
+        expect(await read('a.txt')).toBe('ONE\nTWO\n');
+    });
+
+    it('deletes a file', async () => {
+        await fs.writeFile(path.join(root, 'old.txt'), 'bye\n');
+        const patch = '--- a/old.txt\n+++ /dev/null\n@@ -1 +0,0 @@\n-bye\n';
+        const result = await new PatchApplier(root).applyPatch(patch);
+        expect(result.success).toBe(true);
+        expect(await exists('old.txt')).toBe(false);
+    });
+
+    it('writes nothing when one hunk fails', async () => {
+        await fs.writeFile(path.join(root, 'a.txt'), 'one\n');
+        await fs.writeFile(path.join(root, 'b.txt'), 'two\n');
+        const patch = '--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-one\n+ONE\n--- a/b.txt\n+++ b/b.txt\n@@ -1 +1 @@\n-missing\n+X\n';
+        const result = await new PatchApplier(root).applyPatch(patch);
+        expect(result.success).toBe(false);
+        expect(await read('a.txt')).toBe('one\n');
+    });
+
+    it('restores overwritten files when a later write fails', async () => {
+        await fs.writeFile(path.join(root, 'a.txt'), 'one\n');
+        // A directory where the patch expects to create a file makes that write fail
+        await fs.mkdir(path.join(root, 'blocker'));
+        await fs.writeFile(path.join(root, 'blocker', 'inner.txt'), 'x\n');
+        const patch = '--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-one\n+ONE\n--- /dev/null\n+++ b/blocker/inner.txt/file.txt\n@@ -0,0 +1 @@\n+new\n';
+        const result = await new PatchApplier(root).applyPatch(patch);
+        expect(result.success).toBe(false);
+        expect(result.error).toMatch(/Patch write failed.*rolled back/);
+        expect(result.rollbackErrors).toBeUndefined();
+        expect(await read('a.txt')).toBe('one\n');
+    });
+
+    it('checks without writing on dryRun', async () => {
+        await fs.writeFile(path.join(root, 'a.txt'), 'one\n');
+        const patch = '--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-one\n+ONE\n';
+        const result = await new PatchApplier(root).applyPatch(patch, { dryRun: true });
+        expect(result).toMatchObject({ success: true, applied: false, dryRun: true });
+        expect(await read('a.txt')).toBe('one\n');
+    });
+});
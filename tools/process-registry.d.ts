@@ -0,0 +1,47 @@
+// Types for ProcessRegistry as used by the dev-server API (vite.config.ts)
+import type { PreparedCommand, SandboxInfo } from './execution-backends';
+
+export interface ProcessInfo {
+  id: string;
+  name: string;
+  cmd: string;
+  cwd: string;
+  pid: number | null;
+  status: 'running' | 'exited';
+  /** null while running or when killed by a signal */
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  /** Set when the command could not be started */
+  error: string | null;
+  /** Ended through stop() rather than on its own */
+  stopped: boolean;
+  startedAt: number;
+  endedAt: number | null;
+  /** Execution backend it runs under; null for a plain host shell */
+  sandbox: SandboxInfo | null;
+  uptimeMs: number;
+  /** Total output written so far; pass it as `since` to read only what follows */
+  cursor: number;
+  ports: number[];
+  tail?: string;
+}
+
+export interface ProcessOutput {
+  output: string;
+  cursor: number;
+  missed: number;
+  process: ProcessInfo;
+}
+
+export default class ProcessRegistry {
+  constructor(options?: { maxRunning?: number; maxExited?: number; bufferChars?: number; killGraceMs?: number });
+  start(options: { cmd: string; cwd: string; env?: NodeJS.ProcessEnv; name?: string; exec?: PreparedCommand | null }): ProcessInfo;
+  waitFor(id: string, ms: number): Promise<ProcessInfo>;
+  info(id: string): ProcessInfo;
+  describe(id: string, tailLines?: number): Promise<ProcessInfo>;
+  list(tailLines?: number): Promise<ProcessInfo[]>;
+  read(id: string, options?: { since?: number; tailLines?: number; maxChars?: number }): ProcessOutput;
+  sendInput(id: string, input: string, options?: { eof?: boolean }): Promise<ProcessInfo>;
+  stop(id: string, options?: { remove?: boolean }): Promise<ProcessInfo>;
+  stopAll(): void;
+}
@@ -0,0 +1,296 @@
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+
+/**
+ * Background processes for the dev-server API (dev servers, watchers, REPLs)
+ * Each command runs in its own process group with a stdin pipe. Output from
+ * both streams is kept, interleaved, in a bounded buffer that callers read
+ * by cursor, so several readers can follow the same process.
+ */
+
+const LISTEN_STATE = '0A';
+
+export default class ProcessRegistry {
+    /**
+     * @param {{ maxRunning?: number, maxExited?: number, bufferChars?: number, killGraceMs?: number }} options
+     *   maxExited exited processes are kept for inspection; older ones are dropped
+     */
+    constructor(options = {}) {
+        const { maxRunning = 8, maxExited = 20, bufferChars = 256 * 1024, killGraceMs = 2000 } = options;
+        this.maxRunning = maxRunning;
+        this.maxExited = maxExited;
+        this.bufferChars = bufferChars;
+        this.killGraceMs = killGraceMs;
+        this.processes = new Map();
+        this._nextId = 1;
+    }
+
+    /**
+     * Start a shell command in the background and return its info. `exec`
+     * is a command prepared by ExecutionBackends; without it cmd runs in a
+     * host shell with env.
+     */
+    start({ cmd, cwd, env = process.env, name, exec = null }) {
+        const running = [...this.processes.values()].filter(p => p.status === 'running');
+        if (running.length >= this.maxRunning) {
+            throw new Error(`Too many background processes (${running.length} running); stop one first`);
+        }
+
+        // detached puts the shell in its own process group (POSIX)
+        const child = exec ?
+            spawn(exec.command, exec.args, { ...exec.options, detached: true, stdio: ['pipe', 'pipe', 'pipe'] }) :
+            spawn(cmd, { cwd, env, shell: true, detached: true, stdio: ['pipe', 'pipe', 'pipe'] });
+        const entry = {
+            id: `p${this._nextId++}`,
+            name: name || cmd,
+            cmd,
+            cwd,
+            pid: child.pid ?? null,
+            status: 'running',
+            exitCode: null,
+            signal: null,
+            error: null,
+            stopped: false,
+            startedAt: Date.now(),
+            endedAt: null,
+            sandbox: exec?.sandbox ?? null,
+            output: '',
+            dropped: 0,
+            child
+        };
+
+        let onExit;
+        entry.exited = new Promise(resolve => { onExit = resolve; });
+        const finish = (exitCode, signal) => {
+            if (entry.status !== 'running') return;
+            Object.assign(entry, { status: 'exited', exitCode, signal, endedAt: Date.now() });
+            exec?.cleanup?.();
+            this._prune();
+            onExit();
+        };
+
+        child.stdout.setEncoding('utf-8');
+        child.stderr.setEncoding('utf-8');
+        child.stdout.on('data', chunk => this._append(entry, chunk));
+        child.stderr.on('data', chunk => this._append(entry, chunk));
+        // Writes after the process has gone fail with EPIPE; sendInput reports that instead
+        child.stdin.on('error', () => {});
+        child.on('error', error => {
+            entry.error = error.message;
+            finish(null, null);
+        });
+        child.on('close', finish);
+
+        this.processes.set(entry.id, entry);
+        return this.info(entry);
+    }
+
+    /**
+     * Wait until the process exits or ms pass, whichever is first
+     */
+    async waitFor(id, ms) {
+        const entry = this._get(id);
+        let timer;
+        await Promise.race([entry.exited, new Promise(resolve => { timer = setTimeout(resolve, ms); })]);
+        clearTimeout(timer);
+        return this.info(entry);
+    }
+
+    /**
+     * Summary of a process; ports are only filled in by describe/list
+     */
+    info(entryOrId) {
+        const entry = typeof entryOrId === 'string' ? this._get(entryOrId) : entryOrId;
+        return {
+            id: entry.id,
+            name: entry.name,
+            cmd: entry.cmd,
+            cwd: entry.cwd,
+            pid: entry.pid,
+            status: entry.status,
+            exitCode: entry.exitCode,
+            signal: entry.signal,
+            error: entry.error,
+            stopped: entry.stopped,
+            startedAt: entry.startedAt,
+            endedAt: entry.endedAt,
+            sandbox: entry.sandbox,
+            uptimeMs: (entry.endedAt ?? Date.now()) - entry.startedAt,
+            cursor: entry.dropped + entry.output.length,
+            ports: []
+        };
+    }
+
+    /**
+     * Info plus listening ports and the last tailLines lines of output
+     */
+    async describe(id, tailLines = 0) {
+        const entry = this._get(id);
+        const info = this.info(entry);
+        if (entry.status === 'running') info.ports = await this._listeningPorts(entry);
+        if (tailLines > 0) info.tail = this._tail(entry.output, tailLines);
+        return info;
+    }
+
+    async list(tailLines = 0) {
+        return Promise.all([...this.processes.keys()].map(id => this.describe(id, tailLines)));
+    }
+
+    /**
+     * Output written after cursor `since`, or the last tailLines lines when
+     * since is omitted. At most maxChars are returned, taken from the end;
+     * `missed` counts characters skipped (dropped from the buffer or over maxChars).
+     */
+    read(id, options = {}) {
+        const { since, tailLines = 100, maxChars = Infinity } = options;
+        const entry = this._get(id);
+        const cursor = entry.dropped + entry.output.length;
+        let text;
+        let missed = 0;
+        if (typeof since === 'number') {
+            const start = Math.max(since, entry.dropped);
+            missed = Math.max(0, start - since);
+            text = entry.output.slice(Math.min(start, cursor) - entry.dropped);
+        } else {
+            text = this._tail(entry.output, tailLines);
+        }
+        if (text.length > maxChars) {
+            missed += text.length - maxChars;
+            text = text.slice(-maxChars);
+        }
+        return { output: text, cursor, missed, process: this.info(entry) };
+    }
+
+    /**
+     * Write to the process's stdin; with eof the pipe is closed afterwards
+     */
+    async sendInput(id, input, options = {}) {
+        const entry = this._get(id);
+        const stdin = entry.child.stdin;
+        if (entry.status !== 'running') throw new Error(`Process ${id} has exited`);
+        if (!stdin.writable) throw new Error(`stdin of process ${id} is closed`);
+        await new Promise((resolve, reject) => stdin.write(input, error => (error ? reject(error) : resolve())));
+        if (options.eof) stdin.end();
+        return this.info(entry);
+    }
+
+    /**
+     * SIGTERM to the process group, SIGKILL after the grace period; resolves
+     * once it has exited. With remove, the entry is dropped from the registry.
+     */
+    async stop(id, options = {}) {
+        const entry = this._get(id);
+        if (entry.status === 'running') {
+            entry.stopped = true;
+            this._signal(entry, 'SIGTERM');
+            const timer = setTimeout(() => {
+                if (entry.status === 'running') this._signal(entry, 'SIGKILL');
+            }, this.killGraceMs);
+            timer.unref();
+            await entry.exited;
+            clearTimeout(timer);
+        }
+        if (options.remove) this.processes.delete(id);
+        return this.info(entry);
+    }
+
+    /**
+     * Kill everything still running, e.g. when the dev server shuts down
+     */
+    stopAll() {
+        for (const entry of this.processes.values()) {
+            if (entry.status === 'running') {
+                entry.stopped = true;
+                this._signal(entry, 'SIGKILL');
+            }
+        }
+    }
+
+    // Private helper methods
+    _get(id) {
+        const entry = this.processes.get(id);
+        if (!entry) {
+            const known = [...this.processes.keys()];
+            throw new Error(`Unknown process ${id}${known.length ? ` (known: ${known.join(', ')})` : ''}`);
+        }
+        return entry;
+    }
+
+    _append(entry, chunk) {
+        entry.output += chunk;
+        const excess = entry.output.length - this.bufferChars;
+        if (excess > 0) {
+            entry.output = entry.output.slice(excess);
+            entry.dropped += excess;
+        }
+    }
+
+    _tail(text, lines) {
+        const all = text.replace(/\n$/, '').split('\n');
+        return all.slice(-lines).join('\n');
+    }
+
+    _signal(entry, signal) {
+        if (entry.pid && process.platform !== 'win32') {
+            try { process.kill(-entry.pid, signal); return; } catch { /* group already gone */ }
+        }
+        entry.child.kill(signal);
+    }
+
+    _prune() {
+        const exited = [...this.processes.values()].filter(p => p.status !== 'running');
+        for (const entry of exited.slice(0, Math.max(0, exited.length - this.maxExited))) {
+            this.processes.delete(entry.id);
+        }
+    }
+
+    // TCP ports in LISTEN state owned by any process in the group, read from
+    // /proc; elsewhere, fall back to localhost URLs printed in the output.
+    // The socket tables come from the processes themselves, since a sandbox
+    // without network gives them their own network namespace.
+    async _listeningPorts(entry) {
+        try {
+            const { inodes, pids } = await this._groupSockets(entry.pid);
+            const tables = new Map();
+            for (const pid of pids) {
+                const namespace = await fs.readlink(`/proc/${pid}/ns/net`).catch(() => pid);
+                if (!tables.has(namespace)) tables.set(namespace, [`/proc/${pid}/net/tcp`, `/proc/${pid}/net/tcp6`]);
+            }
+            const ports = new Set();
+            for (const table of [...tables.values()].flat()) {
+                const rows = (await fs.readFile(table, 'utf-8').catch(() => '')).split('\n').slice(1);
+                for (const row of rows) {
+                    const cols = row.trim().split(/\s+/);
+                    if (cols[3] === LISTEN_STATE && inodes.has(cols[9])) {
+                        ports.add(parseInt(cols[1].split(':')[1], 16));
+                    }
+                }
+            }
+            return [...ports].sort((a, b) => a - b);
+        } catch {
+            const matches = entry.output.matchAll(/\b(?:localhost|127\.0\.0\.1|0\.0\.0\.0|\[::1?\]):(\d{2,5})\b/g);
+            return [...new Set([...matches].map(m => Number(m[1])))].sort((a, b) => a - b);
+        }
+    }
+
+    // Socket inodes and pids of the processes in a group
+    async _groupSockets(pgid) {
+        const inodes = new Set();
+        const pids = [];
+        for (const name of await fs.readdir('/proc')) {
+            if (!/^\d+$/.test(name)) continue;
+            // Field 5 of /proc/<pid>/stat is the process group; the command name before it may contain spaces
+            const stat = await fs.readFile(`/proc/${name}/stat`, 'utf-8').catch(() => '');
+            const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+            if (Number(fields[2]) !== pgid) continue;
+            pids.push(name);
+            const fds = await fs.readdir(`/proc/${name}/fd`).catch(() => []);
+            for (const fd of fds) {
+                const link = await fs.readlink(`/proc/${name}/fd/${fd}`).catch(() => '');
+                const match = link.match(/^socket:\[(\d+)\]$/);
+                if (match) inodes.add(match[1]);
+            }
+        }
+        return { inodes, pids };
+    }
+}
@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import os from 'os';
+import ProcessRegistry from './process-registry.js';
+
+let registry;
+const cwd = os.tmpdir();
+
+const start = (cmd, options) => {
+    registry = new ProcessRegistry(options);
+    return registry.start({ cmd, cwd });
+};
+
+// Poll until the process has written text
+const waitForOutput = async (id, text) => {
+    for (let i = 0; i < 100; i++) {
+        const { output } = registry.read(id, { since: 0 });
+        if (output.includes(text)) return;
+        await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    throw new Error(`${id} never printed ${text}`);
+};
+
+afterEach(() => {
+    registry?.stopAll();
+    registry = null;
+});
+
+describe('ProcessRegistry', () => {
+    it('collects output and the exit code', async () => {
+        const { id } = start('echo out; echo err >&2; exit 3');
+        const info = await registry.waitFor(id, 5000);
+        expect(info).toMatchObject({ status: 'exited', exitCode: 3, stopped: false });
+        expect(registry.read(id).output.split('\n').sort()).toEqual(['err', 'out']);
+    });
+
+    it('keeps a bounded buffer and counts what was dropped', async () => {
+        const { id } = start('printf abcdefghijklmnopqrst', { bufferChars: 10 });
+        await registry.waitFor(id, 5000);
+        expect(registry.read(id, { since: 0 })).toMatchObject({ output: 'klmnopqrst', cursor: 20, missed: 10 });
+        expect(registry.read(id, { since: 15 })).toMatchObject({ output: 'pqrst', missed: 0 });
+        expect(registry.read(id, { since: 15, maxChars: 2 })).toMatchObject({ output: 'st', missed: 3 });
+    });
+
+    it('reads only what follows a cursor and writes input', async () => {
+        const { id } = start('cat');
+        await registry.sendInput(id, 'one\n');
+        await waitForOutput(id, 'one');
+        const { cursor } = registry.read(id, { since: 0 });
+        await registry.sendInput(id, 'two\n', { eof: true });
+        const info = await registry.waitFor(id, 5000);
+        expect(info.status).toBe('exited');
+        expect(registry.read(id, { since: cursor })).toMatchObject({ output: 'two\n', missed: 0 });
+        await expect(registry.sendInput(id, 'three\n')).rejects.toThrow(/has exited/);
+    });
+
+    it('escalates to SIGKILL when SIGTERM is ignored', async () => {
+        const { id } = start('trap "" TERM; echo ready; while :; do sleep 1; done', { killGraceMs: 200 });
+        await waitForOutput(id, 'ready');
+        const info = await registry.stop(id);
+        expect(info).toMatchObject({ status: 'exited', stopped: true, signal: 'SIGKILL' });
+    });
+
+    it('limits running processes and prunes old exited ones', async () => {
+        registry = new ProcessRegistry({ maxRunning: 1, maxExited: 1 });
+        const first = registry.start({ cmd: 'true', cwd });
+        await registry.waitFor(first.id, 5000);
+        const second = registry.start({ cmd: 'sleep 30', cwd });
+        expect(() => registry.start({ cmd: 'true', cwd })).toThrow(/Too many background processes/);
+        await registry.stop(second.id);
+        expect(() => registry.info(first.id)).toThrow(/Unknown process p1/);
+        expect(registry.info(second.id).status).toBe('exited');
+    });
+
+    it.runIf(process.platform === 'linux')('reports listening ports', async () => {
+        const { id } = start(`node -e "require('net').createServer().listen(0, '127.0.0.1', function () { console.log('port=' + this.address().port); })"`);
+        await waitForOutput(id, 'port=');
+        const port = Number(registry.read(id).output.match(/port=(\d+)/)[1]);
+        expect((await registry.describe(id)).ports).toEqual([port]);
+    });
+});
@@ -0,0 +1,23 @@
+// Types for WorkspaceJail as used by the dev-server API (vite.config.ts)
+
+export declare const DEFAULT_PROTECTED_PATHS: string[];
+
+export declare class WorkspaceAccessError extends Error {
+  constructor(reason: WorkspaceAccessError['reason'], message: string);
+  reason: 'outside_root' | 'symlink_escape' | 'protected' | 'workspace_root';
+}
+
+export default class WorkspaceJail {
+  constructor(options?: { roots?: string[]; protectedPaths?: string[]; caseInsensitive?: boolean });
+  static fromEnv(env?: NodeJS.ProcessEnv): WorkspaceJail;
+  roots: string[];
+  protectedPaths: string[];
+  caseInsensitive: boolean;
+  expandHome(p: string): string;
+  resolve(base: string, target?: string): Promise<string>;
+  resolveForRemoval(base: string, target?: string): Promise<string>;
+  protectedPathsIn(dir: string, options?: { skip?: string[] }): Promise<string[]>;
+  allows(fullPath: string): Promise<boolean>;
+  isProtected(fullPath: string): boolean;
+  rootOf(fullPath: string): string | null;
+}
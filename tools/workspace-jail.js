@@ -0,0 +1,247 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Workspace confinement for the dev-server file API
+ * Every path must stay inside one of the allowed roots, both as written and
+ * after symlinks are resolved, and must not fall under a protected path.
+ * Deletes and moves additionally may not take a root itself or a directory
+ * holding a protected path.
+ */
+
+export const DEFAULT_PROTECTED_PATHS = ['.git', '.env', '.env.*'];
+
+export class WorkspaceAccessError extends Error {
+    /**
+     * @param {'outside_root' | 'symlink_escape' | 'protected' | 'workspace_root'} reason
+     */
+    constructor(reason, message) {
+        super(message);
+        this.name = 'WorkspaceAccessError';
+        this.reason = reason;
+    }
+}
+
+export default class WorkspaceJail {
+    /**
+     * @param {{ roots?: string[], protectedPaths?: string[], caseInsensitive?: boolean }} options
+     *   protectedPaths entries without a slash match any path segment
+     *   (`*` is a wildcard); entries with one match from the root down.
+     *   caseInsensitive defaults to true on macOS and Windows, whose default
+     *   filesystems treat `.GIT` and `.git` as the same directory.
+     */
+    constructor(options = {}) {
+        const {
+            roots = [process.cwd()],
+            protectedPaths = DEFAULT_PROTECTED_PATHS,
+            caseInsensitive = process.platform === 'darwin' || process.platform === 'win32'
+        } = options;
+        this.roots = roots.map(root => path.resolve(this.expandHome(root)));
+        this.protectedPaths = protectedPaths;
+        this.caseInsensitive = caseInsensitive;
+        this._realRoots = null;
+    }
+
+    /**
+     * Configuration from REFLEX_WORKSPACE_ROOTS (separated like PATH) and
+     * REFLEX_PROTECTED_PATHS (comma-separated); unset means the defaults
+     */
+    static fromEnv(env = process.env) {
+        const roots = (env.REFLEX_WORKSPACE_ROOTS || '').split(path.delimiter).map(r => r.trim()).filter(Boolean);
+        const protectedPaths = env.REFLEX_PROTECTED_PATHS === undefined ?
+            undefined :
+            env.REFLEX_PROTECTED_PATHS.split(',').map(p => p.trim()).filter(Boolean);
+        return new WorkspaceJail({ roots: roots.length ? roots : undefined, protectedPaths });
+    }
+
+    expandHome(p) {
+        if (p === '~') return os.homedir();
+        if (p.startsWith('~/')) return path.join(os.homedir(), p.slice(2));
+        return p;
+    }
+
+    /**
+     * Resolve target against base and check it. Returns the absolute path
+     * or throws WorkspaceAccessError.
+     */
+    async resolve(base, target = '.') {
+        const full = path.resolve(base, this.expandHome(target));
+        const display = typeof target === 'string' && target !== '.' ? target : full;
+
+        const root = this._rootOf(full, this.roots);
+        if (!root) {
+            throw new WorkspaceAccessError('outside_root', `Access denied: ${display} is outside the workspace roots (${this.roots.join(', ')})`);
+        }
+        if (this._isProtectedWithin(root, full)) {
+            throw new WorkspaceAccessError('protected', `Access denied: ${display} is a protected path`);
+        }
+
+        // The path may not exist yet (writes, mkdir), so resolve the deepest existing ancestor
+        const real = await this._realpath(full);
+        const realRoot = this._rootOf(real, await this._getRealRoots());
+        if (!realRoot) {
+            throw new WorkspaceAccessError('symlink_escape', `Access denied: ${display} resolves through a symlink to ${real}, outside the workspace roots`);
+        }
+        if (this._isProtectedWithin(realRoot, real)) {
+            throw new WorkspaceAccessError('protected', `Access denied: ${display} resolves to a protected path`);
+        }
+        return full;
+    }
+
+    /**
+     * Like resolve, for deletes and moves: also refuses a workspace root and a
+     * directory with a protected path anywhere inside it, since removing or
+     * moving either would take the protected path along.
+     */
+    async resolveForRemoval(base, target = '.') {
+        const full = await this.resolve(base, target);
+        const display = typeof target === 'string' && target !== '.' ? target : full;
+
+        const real = await this._realpath(full);
+        if (this._isRoot(full, this.roots) || this._isRoot(real, await this._getRealRoots())) {
+            throw new WorkspaceAccessError('workspace_root', `Access denied: ${display} is a workspace root`);
+        }
+        const stat = await fs.lstat(full).catch(() => null);
+        const inside = stat?.isDirectory() ? await this._findProtectedInside(full) : null;
+        if (inside) {
+            throw new WorkspaceAccessError('protected', `Access denied: ${display} contains the protected path ${path.relative(full, inside)}`);
+        }
+        return full;
+    }
+
+    /**
+     * Protected paths under a directory, for sandboxes that must hide them.
+     * Does not descend into protected directories, symlinks or the `skip`
+     * directory names.
+     */
+    async protectedPathsIn(dir, options = {}) {
+        const { skip = ['node_modules'] } = options;
+        const found = [];
+        await this._walkProtected(dir, skip, full => {
+            found.push(full);
+            return false;
+        });
+        return found;
+    }
+
+    /**
+     * Whether an absolute path passes every check (for filtering listings)
+     */
+    async allows(fullPath) {
+        try {
+            await this.resolve(fullPath);
+            return true;
+        } catch (error) {
+            if (error instanceof WorkspaceAccessError) return false;
+            throw error;
+        }
+    }
+
+    /**
+     * Whether an absolute path falls under a protected entry of its root
+     */
+    isProtected(fullPath) {
+        const root = this._rootOf(fullPath, this.roots);
+        return !!root && this._isProtectedWithin(root, fullPath);
+    }
+
+    /**
+     * The workspace root an absolute path falls under, or null
+     */
+    rootOf(fullPath) {
+        return this._rootOf(fullPath, this.roots);
+    }
+
+    // Private helper methods
+    // Longest root containing the path, so nested roots report their own protected paths
+    _rootOf(fullPath, roots) {
+        const containing = roots.filter(root => {
+            const relative = path.relative(this._fold(root), this._fold(fullPath));
+            return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+        });
+        return containing.sort((a, b) => b.length - a.length)[0] || null;
+    }
+
+    _isRoot(fullPath, roots) {
+        return roots.some(root => path.relative(this._fold(root), this._fold(fullPath)) === '');
+    }
+
+    _fold(p) {
+        return this.caseInsensitive ? p.toLowerCase() : p;
+    }
+
+    // First protected path below a directory, without following symlinks (rm and rename do not either)
+    async _findProtectedInside(dir) {
+        let first = null;
+        await this._walkProtected(dir, [], full => {
+            first = full;
+            return true;
+        });
+        return first;
+    }
+
+    // Calls visit with each protected path below dir until it returns true; true when it did
+    async _walkProtected(dir, skip, visit) {
+        let entries;
+        try {
+            entries = await fs.readdir(dir, { withFileTypes: true });
+        } catch (error) {
+            if (error.code === 'ENOENT') return false;
+            throw error;
+        }
+        for (const entry of entries) {
+            const full = path.join(dir, entry.name);
+            if (this.isProtected(full)) {
+                if (visit(full)) return true;
+            } else if (entry.isDirectory() && !skip.includes(entry.name)) {
+                if (await this._walkProtected(full, skip, visit)) return true;
+            }
+        }
+        return false;
+    }
+
+    _isProtectedWithin(root, fullPath) {
+        const relative = path.relative(this._fold(root), this._fold(fullPath)).split(path.sep).join('/');
+        if (!relative) return false;
+        const segments = relative.split('/');
+        return this.protectedPaths.some(entry => {
+            const normalized = this._fold(entry.replace(/^\/+|\/+$/g, ''));
+            if (normalized.includes('/')) {
+                return relative === normalized || relative.startsWith(`${normalized}/`);
+            }
+            const matcher = new RegExp(`^${normalized.split('*').map(s => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+            return segments.some(segment => matcher.test(segment));
+        });
+    }
+
+    async _getRealRoots() {
+        if (!this._realRoots) {
+            this._realRoots = await Promise.all(this.roots.map(root => this._realpath(root)));
+        }
+        return this._realRoots;
+    }
+
+    async _realpath(fullPath, depth = 0) {
+        if (depth > 40) throw new Error(`Too many levels of symbolic links: ${fullPath}`);
+        try {
+            return await fs.realpath(fullPath);
+        } catch (error) {
+            if (error.code !== 'ENOENT' && error.code !== 'ENOTDIR') throw error;
+        }
+        // A dangling symlink still decides where a write lands, so follow it by hand
+        let linkTarget = null;
+        try {
+            linkTarget = await fs.readlink(fullPath);
+        } catch (error) {
+            if (error.code !== 'EINVAL' && error.code !== 'ENOENT' && error.code !== 'ENOTDIR') throw error;
+        }
+        if (linkTarget !== null) {
+            return this._realpath(path.resolve(path.dirname(fullPath), linkTarget), depth + 1);
+        }
+        // Not there yet (a write or mkdir target): resolve the parent and append the name
+        const parent = path.dirname(fullPath);
+        if (parent === fullPath) return fullPath;
+        return path.join(await this._realpath(parent, depth), path.basename(fullPath));
+    }
+}
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import WorkspaceJail from './workspace-jail.js';
+
+let tmp;
+let root;
+let jail;
+
+// Rejects with a WorkspaceAccessError carrying this reason
+const denied = (promise, reason) => expect(promise).rejects.toMatchObject({ name: 'WorkspaceAccessError', reason });
+
+beforeEach(async () => {
+    tmp = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'workspace-jail-')));
+    root = path.join(tmp, 'root');
+    await fs.mkdir(path.join(root, 'src', '.git'), { recursive: true });
+    await fs.mkdir(path.join(root, '.git'));
+    await fs.writeFile(path.join(root, '.env'), 'SECRET=1\n');
+    await fs.mkdir(path.join(tmp, 'outside'));
+    await fs.mkdir(path.join(root, 'plain', 'nested'), { recursive: true });
+    jail = new WorkspaceJail({ roots: [root], caseInsensitive: false });
+});
+
+afterEach(async () => {
+    await fs.rm(tmp, { recursive: true, force: true });
+});
+
+describe('WorkspaceJail.resolve', () => {
+    it('resolves paths inside the root', async () => {
+        expect(await jail.resolve(root, 'plain/new.txt')).toBe(path.join(root, 'plain', 'new.txt'));
+    });
+
+    it('refuses .. traversal out of the root', async () => {
+        await denied(jail.resolve(root, '../outside/x.txt'), 'outside_root');
+        await denied(jail.resolve(root, 'plain/../../outside'), 'outside_root');
+    });
+
+    it('refuses absolute paths outside the root', async () => {
+        await denied(jail.resolve(root, path.join(tmp, 'outside')), 'outside_root');
+        await denied(jail.resolve(root, '/etc/passwd'), 'outside_root');
+    });
+
+    it('refuses symlinks that point out of the root', async () => {
+        await fs.symlink(path.join(tmp, 'outside'), path.join(root, 'escape'));
+        await denied(jail.resolve(root, 'escape/file.txt'), 'symlink_escape');
+    });
+
+    it('follows dangling symlinks to where a write would land', async () => {
+        await fs.symlink(path.join(tmp, 'outside', 'later.txt'), path.join(root, 'dangling'));
+        await denied(jail.resolve(root, 'dangling'), 'symlink_escape');
+        await fs.symlink(path.join(root, 'plain', 'later.txt'), path.join(root, 'inside'));
+        expect(await jail.resolve(root, 'inside')).toBe(path.join(root, 'inside'));
+    });
+
+    it('refuses protected paths at any depth and through symlinks', async () => {
+        await denied(jail.resolve(root, '.git/config'), 'protected');
+        await denied(jail.resolve(root, 'src/.git'), 'protected');
+        await denied(jail.resolve(root, '.env'), 'protected');
+        await denied(jail.resolve(root, '.env.local'), 'protected');
+        await fs.symlink(path.join(root, '.env'), path.join(root, 'settings'));
+        await denied(jail.resolve(root, 'settings'), 'protected');
+    });
+
+    it('matches protected paths case-insensitively when asked to', async () => {
+        expect(await jail.resolve(root, '.GIT/config')).toBe(path.join(root, '.GIT', 'config'));
+        const folding = new WorkspaceJail({ roots: [root], caseInsensitive: true });
+        await denied(folding.resolve(root, '.GIT/config'), 'protected');
+        await denied(folding.resolve(root, '.Env'), 'protected');
+    });
+});
+
+describe('WorkspaceJail.resolveForRemoval', () => {
+    it('allows directories without protected paths', async () => {
+        expect(await jail.resolveForRemoval(root, 'plain')).toBe(path.join(root, 'plain'));
+    });
+
+    it('refuses the root itself however it is written', async () => {
+        await denied(jail.resolveForRemoval(root, '.'), 'workspace_root');
+        await denied(jail.resolveForRemoval(root, 'src/..'), 'workspace_root');
+        await denied(jail.resolveForRemoval(path.join(root, 'src'), '..'), 'workspace_root');
+        await denied(jail.resolveForRemoval(root, root), 'workspace_root');
+    });
+
+    it('refuses a symlink that resolves to the root', async () => {
+        await fs.symlink(root, path.join(root, 'plain', 'home'));
+        await denied(jail.resolveForRemoval(root, 'plain/home'), 'workspace_root');
+    });
+
+    it('refuses an ancestor of a protected path', async () => {
+        await denied(jail.resolveForRemoval(root, 'src'), 'protected');
+        await fs.writeFile(path.join(root, 'plain', 'nested', '.env.test'), 'X=1\n');
+        await denied(jail.resolveForRemoval(root, 'plain'), 'protected');
+    });
+
+    it('does not look through a symlink, which is removed on its own', async () => {
+        await fs.symlink(path.join(root, 'src'), path.join(root, 'plain', 'src-link'));
+        await fs.rm(path.join(root, 'plain', 'nested'), { recursive: true });
+        expect(await jail.resolveForRemoval(root, 'plain/src-link')).toBe(path.join(root, 'plain', 'src-link'));
+    });
+});
+
+describe('WorkspaceJail.protectedPathsIn', () => {
+    it('lists protected paths without descending into them or skipped directories', async () => {
+        await fs.mkdir(path.join(root, 'node_modules', 'pkg'), { recursive: true });
+        await fs.writeFile(path.join(root, 'node_modules', 'pkg', '.env'), 'X=1\n');
+        await fs.writeFile(path.join(root, '.git', '.env'), 'X=1\n');
+        const found = await jail.protectedPathsIn(root);
+        expect(found.sort()).toEqual([path.join(root, '.env'), path.join(root, '.git'), path.join(root, 'src', '.git')].sort());
+    });
+});
@@ -1,66 +1,401 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
-import os from 'os';
 import { componentTagger } from "lovable-tagger";
 import fs from 'fs/promises';
-import { exec as execCb } from 'child_process';
+import { exec as execCb, execFile as execFileCb, spawn, type ChildProcess } from 'child_process';
 import { promisify } from 'util';
+import { createHash } from 'crypto';
+import FileUtilities from './tools/file-utilities.js';
+import AdvancedEditor from './tools/advanced-editor.js';
+import PatchApplier from './tools/patch-applier.js';
+import WorkspaceJail, { WorkspaceAccessError } from './tools/workspace-jail.js';
+import ProcessRegistry from './tools/process-registry.js';
+import CommandPolicy, { CommandPolicyError } from './tools/command-policy.js';
+import ExecutionBackends, { SandboxPolicyError, filterEnv, type PreparedCommand, type SandboxInfo } from './tools/execution-backends.js';
 const exec = promisify(execCb);
+const execFile = promisify(execFileCb);
 
-// Lightweight API for file IO, shell, and git operations used by the agent
-function resolveBaseCwd(cwd?: string) {
-  const base = process.cwd();
-  if (!cwd || typeof cwd !== 'string') return base;
-  // Expand ~ to the user's home directory
-  let candidate = cwd.trim();
-  if (candidate === '~') candidate = os.homedir();
-  else if (candidate.startsWith('~/')) candidate = path.join(os.homedir(), candidate.slice(2));
-  // If absolute, path.resolve will return as-is; if relative, resolve against process cwd
-  return path.resolve(base, candidate);
+// Lightweight API for file IO, shell, and git operations used by the agent.
+// Every path goes through the jail: allowed roots come from
+// REFLEX_WORKSPACE_ROOTS (default: the directory the dev server runs in).
+const jail = WorkspaceJail.fromEnv();
+// Shell commands (including background processes) are checked against the
+// command policy first: built-in rules, plus the JSON file named by REFLEX_COMMAND_POLICY
+const commandPolicy = CommandPolicy.fromEnv();
+// ...and then run under an execution backend (host, bubblewrap, unshare or a
+// container); requests pick one per workspace, REFLEX_SANDBOX* set the defaults
+// and what requests may ask for
+const execution = ExecutionBackends.fromEnv();
+
+// Working directory for a request; ~ expands to the home directory and
+// relative paths resolve against the dev server's cwd
+async function resolveBaseCwd(cwd?: string) {
+  if (!cwd || typeof cwd !== 'string') return jail.resolve(process.cwd());
+  return jail.resolve(process.cwd(), cwd.trim());
+}
+
+// How to spawn a command in cwd under the backend, network and env policy a
+// request asked for (SandboxPolicyError when that is less isolation than the
+// server allows); the sandbox can write to the workspace root holding cwd,
+// except for its protected paths, which it hides
+async function prepareCommand(cmd: string, cwd: string, sandbox: unknown) {
+  if (sandbox !== undefined && (typeof sandbox !== 'object' || sandbox === null)) throw new Error('sandbox must be an object');
+  const root = jail.rootOf(cwd) ?? cwd;
+  return execution.prepare(cmd, { cwd, root, masked: await jail.protectedPathsIn(root), request: sandbox ?? {} });
+}
+
+// Content hash returned by reads and checked by writes to catch concurrent edits
+const hashContent = (data: Buffer | string) => createHash('sha256').update(data).digest('hex');
+
+// Same heuristic as git: a NUL byte in the first 8000 bytes means binary
+const isBinary = (data: Buffer) => data.subarray(0, 8000).includes(0);
+
+// Fails when the file no longer has the hash the caller last saw
+async function assertUnchanged(full: string, expectedHash?: string) {
+  if (!expectedHash) return;
+  let current: Buffer;
+  try {
+    current = await fs.readFile(full);
+  } catch {
+    return; // deleted or never existed; nothing to clobber
+  }
+  if (hashContent(current) !== expectedHash) {
+    throw new Error('File changed since it was last read (hash mismatch); read it again before editing');
+  }
+}
+
+// Runs git with an argument list (no shell, so paths and messages need no quoting).
+// git runs on the host, so it gets the sandbox's env policy rather than the
+// server's secrets, and runs no hooks or fsmonitor program: those are
+// workspace code (.husky via core.hooksPath) the agent can edit
+async function git(args: string[], cwd?: string) {
+  // Literal pathspecs: no ":(top)" or glob magic reaching past the paths the jail checked
+  const env = { ...filterEnv(process.env, execution.envPolicy, { allow: execution.envAllow, deny: execution.envDeny }), GIT_LITERAL_PATHSPECS: '1' };
+  const { stdout } = await execFile('git', ['-c', 'core.hooksPath=/dev/null', '-c', 'core.fsmonitor=false', ...args], { cwd: await resolveBaseCwd(cwd), env, maxBuffer: 10 * 1024 * 1024 });
+  return stdout;
+}
+
+// Refs and branch names are positional arguments; one starting with "-" would
+// be read as an option (e.g. --output=<file>)
+function gitRef(value: unknown, field: string) {
+  if (typeof value !== 'string' || !value) throw new Error(`${field} must be a non-empty string`);
+  if (value.startsWith('-')) throw new Error(`${field} must not start with "-": ${value}`);
+  return value;
+}
+
+// Glob patterns are matched against the workspace directory; an absolute one
+// or one that climbs with ".." (in {a,b} or @(a|b) alternatives as well)
+// would walk and read files outside it before the jail could hide them
+function relativeGlob(value: unknown, field: string) {
+  if (typeof value !== 'string' || !value) throw new Error(`${field} must be a non-empty string`);
+  if (path.isAbsolute(value) || /^~|^[A-Za-z]:|(^|[{,(|])[\\/]/.test(value)) {
+    throw new WorkspaceAccessError('outside_root', `Access denied: ${field} must be relative to the workspace: ${value}`);
+  }
+  if (value.split(/[\\/{},()|]/).includes('..')) {
+    throw new WorkspaceAccessError('outside_root', `Access denied: ${field} must not contain "..": ${value}`);
+  }
+  return value;
+}
+
+// Paths given to git tools pass the same jail checks as the file APIs
+// (inside a root, not .git or .env); git resolves them against cwd as well
+async function gitPaths(paths: unknown, cwd?: string) {
+  if (paths === undefined || paths === null) return [];
+  if (!Array.isArray(paths) || paths.some(p => typeof p !== 'string' || !p)) throw new Error('paths must be an array of non-empty strings');
+  const base = await resolveBaseCwd(cwd);
+  for (const p of paths) await jail.resolve(base, p);
+  return paths as string[];
+}
+
+// `git status --porcelain=v1 -b -z`: a "## branch...upstream [ahead N, behind M]"
+// header, then "XY path" entries; renames are followed by the original path.
+function parseGitStatus(out: string) {
+  const entries = out.split('\0');
+  const header = entries[0].startsWith('## ') ? entries.shift()!.slice(3) : '';
+  const [, branch = '', upstream, tracking = ''] = header.match(/^(.+?)(?:\.\.\.(\S+))?(?: \[(.*)\])?$/) || [];
+  const files: Array<{ path: string; from?: string; index: string; worktree: string }> = [];
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (!entry) continue;
+    const file: { path: string; from?: string; index: string; worktree: string } = { index: entry[0], worktree: entry[1], path: entry.slice(3) };
+    if (file.index === 'R' || file.index === 'C') file.from = entries[++i];
+    files.push(file);
+  }
+  return {
+    branch: branch.replace(/^No commits yet on /, ''),
+    upstream: upstream || null,
+    ahead: Number(tracking.match(/ahead (\d+)/)?.[1] || 0),
+    behind: Number(tracking.match(/behind (\d+)/)?.[1] || 0),
+    clean: files.length === 0,
+    files,
+  };
+}
+
+// Signals the child's whole process group so grandchildren spawned by the
+// shell (e.g. `sleep` in `sh -c "sleep 30; ..."`) are not left behind.
+function killProcessTree(child: ChildProcess, signal: NodeJS.Signals = 'SIGTERM') {
+  if (child.pid && process.platform !== 'win32') {
+    try { process.kill(-child.pid, signal); return; } catch { /* group already gone */ }
+  }
+  child.kill(signal);
+}
+
+// Commands run for at most the requested timeout (default 2 minutes), never
+// longer than REFLEX_SHELL_MAX_TIMEOUT_MS (default 10 minutes)
+const SHELL_MAX_TIMEOUT_MS = Number(process.env.REFLEX_SHELL_MAX_TIMEOUT_MS) || 10 * 60 * 1000;
+const SHELL_DEFAULT_TIMEOUT_MS = Math.min(2 * 60 * 1000, SHELL_MAX_TIMEOUT_MS);
+// Time between SIGTERM and SIGKILL when stopping a command
+const SHELL_KILL_GRACE_MS = 2000;
+// Output (characters, both streams together) after which a command is stopped
+const SHELL_MAX_OUTPUT_CHARS = 10 * 1024 * 1024;
+
+// Background processes started through /api/processes/*; unlike /api/shell
+// they have no timeout and outlive the request that started them
+const processes = new ProcessRegistry({ killGraceMs: SHELL_KILL_GRACE_MS });
+// How long /api/processes/start waits for early output (or an early exit)
+const PROCESS_START_WAIT_MS = 2000;
+const PROCESS_MAX_START_WAIT_MS = 30 * 1000;
+
+const shellTimeout = (requestedMs: unknown) => {
+  const ms = Number(requestedMs);
+  return Math.min(ms > 0 ? ms : SHELL_DEFAULT_TIMEOUT_MS, SHELL_MAX_TIMEOUT_MS);
+};
+
+// SIGTERM to the whole group, then SIGKILL for anything that ignored it
+// (dev servers and watchers often trap SIGTERM)
+function terminateProcessTree(child: ChildProcess) {
+  killProcessTree(child, 'SIGTERM');
+  setTimeout(() => killProcessTree(child, 'SIGKILL'), SHELL_KILL_GRACE_MS).unref();
+}
+
+interface ShellRunOptions {
+  maxBuffer: number;
+  timeoutMs: number;
+}
+
+interface ShellRunResult {
+  /** null when the process was killed by a signal */
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+  timedOut: boolean;
+  /** Output passed maxBuffer and the command was stopped */
+  truncated: boolean;
+  sandbox: SandboxInfo;
+}
+
+// Runs a shell command to completion and reports how it ended; a non-zero
+// exit is a result, not an error. The process group is killed on timeout,
+// when output passes maxBuffer, or when the client disconnects (the
+// dashboard aborts the request when the user stops a run). With onOutput,
+// output is handed over as it arrives instead of being collected, and still
+// counts towards maxBuffer.
+function runShellCommand(command: PreparedCommand, options: ShellRunOptions, res: any, onOutput?: (stream: 'stdout' | 'stderr', chunk: string) => void) {
+  return new Promise<ShellRunResult>((resolve, reject) => {
+    const startedAt = Date.now();
+    // detached puts the shell (or sandbox launcher) in its own process group (POSIX)
+    const child = spawn(command.command, command.args, { ...command.options, detached: true });
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    let truncated = false;
+    let outputChars = 0;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      terminateProcessTree(child);
+    }, options.timeoutMs);
+    // Background children keep the pipes open after the shell exits, so kill the group even then
+    const onClose = () => terminateProcessTree(child);
+    const append = (which: 'stdout' | 'stderr') => (chunk: string) => {
+      if (truncated) return;
+      if (onOutput) onOutput(which, chunk);
+      else if (which === 'stdout') stdout += chunk;
+      else stderr += chunk;
+      outputChars += chunk.length;
+      if (outputChars > options.maxBuffer) {
+        truncated = true;
+        terminateProcessTree(child);
+      }
+    };
+    // Decode as text here so multi-byte characters are never split across chunks
+    child.stdout.setEncoding('utf-8');
+    child.stderr.setEncoding('utf-8');
+    child.stdout.on('data', append('stdout'));
+    child.stderr.on('data', append('stderr'));
+    const finish = () => {
+      clearTimeout(timer);
+      res.off('close', onClose);
+      command.cleanup?.();
+    };
+    child.on('error', (err) => {
+      finish();
+      reject(err);
+    });
+    child.on('close', (exitCode, signal) => {
+      finish();
+      resolve({ exitCode, signal, stdout, stderr, durationMs: Date.now() - startedAt, timedOut, truncated, sandbox: command.sandbox });
+    });
+    res.on('close', onClose);
+  });
+}
+
+// "exit code 1", "timed out after 120s" or "killed by SIGTERM"
+function describeShellExit(result: ShellRunResult, timeoutMs: number) {
+  if (result.timedOut) return `timed out after ${timeoutMs / 1000}s`;
+  if (result.truncated) return 'stopped: output exceeded maxBuffer';
+  return result.signal ? `killed by ${result.signal}` : `exit code ${result.exitCode}`;
 }
 
 function registerAgentAPIs(server: any) {
+  // Background processes run in their own process groups, so Ctrl-C on the dev
+  // server does not reach them; stop them when the server goes away
+  const stopProcesses = () => processes.stopAll();
+  const exitOnSignal = (signal: NodeJS.Signals) => {
+    stopProcesses();
+    process.exit(signal === 'SIGINT' ? 130 : 129);
+  };
+  process.once('exit', stopProcesses);
+  process.once('SIGINT', exitOnSignal);
+  process.once('SIGHUP', exitOnSignal);
+  server.httpServer?.once('close', () => {
+    stopProcesses();
+    process.off('exit', stopProcesses);
+    process.off('SIGINT', exitOnSignal);
+    process.off('SIGHUP', exitOnSignal);
+  });
+
   // Write file
   server.middlewares.use('/api/files/write', async (req: any, res: any) => {
     if (req.method !== 'POST') { res.statusCode = 405; return res.end('Method Not Allowed'); }
     let body = '';
     for await (const chunk of req) body += chunk;
     try {
-      const { path: targetPath, content, overwrite, cwd } = JSON.parse(body || '{}');
+      const { path: targetPath, content, overwrite = true, cwd, expectedHash } = JSON.parse(body || '{}');
       if (!targetPath || typeof content !== 'string') throw new Error('path and content required');
-      const base = resolveBaseCwd(cwd);
-      const full = path.resolve(base, targetPath);
-      try {
-        await fs.access(full);
-        if (!overwrite) throw new Error(`File exists: ${targetPath}`);
-      } catch (_) {}
+      const base = await resolveBaseCwd(cwd);
+      const full = await jail.resolve(base, targetPath);
+      await assertUnchanged(full, expectedHash);
       await fs.mkdir(path.dirname(full), { recursive: true });
-      await fs.writeFile(full, content, 'utf-8');
+      try {
+        // wx fails instead of replacing an existing file
+        await fs.writeFile(full, content, { encoding: 'utf-8', flag: overwrite ? 'w' : 'wx' });
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'EEXIST') throw new Error(`File exists: ${targetPath} (pass overwrite: true to replace it)`);
+        throw e;
+      }
       res.setHeader('Content-Type', 'application/json');
-      res.end(JSON.stringify({ success: true, path: targetPath }));
+      res.end(JSON.stringify({ success: true, path: targetPath, hash: hashContent(content) }));
     } catch (e: any) {
-      res.statusCode = 400;
+      res.statusCode = e instanceof WorkspaceAccessError ? 403 : 400;
       res.setHeader('Content-Type', 'application/json');
       res.end(JSON.stringify({ success: false, error: e.message }));
     }
   });
 
-  // Read file
+  // Read file: whole file by default, or a 1-based line range (offset/limit),
+  // optionally line-numbered, cut at maxBytes on a line boundary
   server.middlewares.use('/api/files/read', async (req: any, res: any) => {
     if (req.method !== 'POST') { res.statusCode = 405; return res.end('Method Not Allowed'); }
     let body = '';
     for await (const chunk of req) body += chunk;
     try {
-      const { path: targetPath, cwd } = JSON.parse(body || '{}');
+      const { path: targetPath, cwd, offset, limit, lineNumbers = false, maxBytes = 1024 * 1024 } = JSON.parse(body || '{}');
       if (!targetPath) throw new Error('path required');
-      const base = resolveBaseCwd(cwd);
-      const full = path.resolve(base, targetPath);
-      const data = await fs.readFile(full, 'utf-8');
+      const base = await resolveBaseCwd(cwd);
+      const full = await jail.resolve(base, targetPath);
+      const data = await fs.readFile(full);
+      const hash = hashContent(data);
       res.setHeader('Content-Type', 'application/json');
-      res.end(JSON.stringify({ success: true, path: targetPath, content: data }));
+      if (isBinary(data)) {
+        return res.end(JSON.stringify({ success: true, path: targetPath, binary: true, size: data.length, hash }));
+      }
+
+      const text = data.toString('utf-8');
+      const lines = text.split('\n');
+      if (text.endsWith('\n')) lines.pop();
+      const totalLines = lines.length;
+      if (!offset && !limit && !lineNumbers && data.length <= maxBytes) {
+        return res.end(JSON.stringify({ success: true, path: targetPath, content: text, size: data.length, hash, totalLines, startLine: 1, endLine: totalLines, truncated: false }));
+      }
+
+      const startLine = Math.max(1, Number(offset) || 1);
+      const lastLine = limit ? Math.min(totalLines, startLine + Number(limit) - 1) : totalLines;
+      const width = String(lastLine).length;
+      const out: string[] = [];
+      let bytes = 0;
+      let truncated = false;
+      for (let n = startLine; n <= lastLine; n++) {
+        const line = lineNumbers ? `${String(n).padStart(width)}\t${lines[n - 1]}` : lines[n - 1];
+        bytes += Buffer.byteLength(line) + 1;
+        if (bytes > maxBytes) {
+          truncated = true;
+          // A single overlong line (minified code) is cut rather than dropped
+          if (out.length === 0) out.push(line.slice(0, maxBytes));
+          break;
+        }
+        out.push(line);
+      }
+      const endLine = startLine + out.length - 1;
+      res.end(JSON.stringify({
+        success: true,
+        path: targetPath,
+        content: out.join('\n'),
+        size: data.length,
+        hash,
+        totalLines,
+        startLine,
+        endLine,
+        truncated,
+      }));
     } catch (e: any) {
-      res.statusCode = 400;
+      res.statusCode = e instanceof WorkspaceAccessError ? 403 : 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: false, error: e.message }));
+    }
+  });
+
+  // Exact string replacement inside a file (edit_file tool)
+  server.middlewares.use('/api/files/edit', async (req: any, res: any) => {
+    if (req.method !== 'POST') { res.statusCode = 405; return res.end('Method Not Allowed'); }
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    try {
+      const { path: targetPath, oldString, newString, replaceAll = false, cwd, expectedHash } = JSON.parse(body || '{}');
+      if (!targetPath || typeof oldString !== 'string' || typeof newString !== 'string') throw new Error('path, oldString and newString required');
+      if (oldString === newString) throw new Error('oldString and newString are identical');
+      const base = await resolveBaseCwd(cwd);
+      const full = await jail.resolve(base, targetPath);
+      await assertUnchanged(full, expectedHash);
+      const editor = new AdvancedEditor(base);
+      const result = await editor.smartReplace(full, oldString, newString, { exact: true, replaceAll, backup: false });
+      const hash = hashContent(await fs.readFile(result.filePath));
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: true, path: targetPath, replacements: result.replacements, hash }));
+    } catch (e: any) {
+      res.statusCode = e instanceof WorkspaceAccessError ? 403 : 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: false, error: e.message }));
+    }
+  });
+
+  // Apply a multi-file unified diff (apply_patch tool); all-or-nothing unless dryRun
+  server.middlewares.use('/api/files/patch', async (req: any, res: any) => {
+    if (req.method !== 'POST') { res.statusCode = 405; return res.end('Method Not Allowed'); }
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    try {
+      const { patch, cwd, dryRun = false, fuzz = 2 } = JSON.parse(body || '{}');
+      if (!patch || typeof patch !== 'string') throw new Error('patch required');
+      const result = await new PatchApplier(await resolveBaseCwd(cwd), { jail }).applyPatch(patch, { dryRun, fuzz });
+      // Failed hunks still return the per-hunk report so the caller can see what to fix
+      if (!result.success) res.statusCode = 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(result.success ? result : { ...result, error: result.error || 'Some hunks did not apply; no files were changed' }));
+    } catch (e: any) {
+      res.statusCode = e instanceof WorkspaceAccessError ? 403 : 400;
       res.setHeader('Content-Type', 'application/json');
       res.end(JSON.stringify({ success: false, error: e.message }));
     }
@@ -73,8 +408,8 @@ function registerAgentAPIs(server: any) {
     for await (const chunk of req) body += chunk;
     try {
       const { cwd, path: rel = '.', maxDepth = 3 } = JSON.parse(body || '{}');
-      const base = resolveBaseCwd(cwd);
-      const root = path.resolve(base, rel);
+      const base = await resolveBaseCwd(cwd);
+      const root = await jail.resolve(base, rel);
 
       async function walk(dir: string, depth: number): Promise<any[]> {
         if (depth < 0) return [] as any[];
@@ -82,6 +417,7 @@ function registerAgentAPIs(server: any) {
         const results: any[] = [];
         for (const ent of entries) {
           const full = path.join(dir, ent.name);
+          if (jail.isProtected(full)) continue;
           const relPath = path.relative(base, full);
           if (ent.isDirectory()) {
             results.push({ type: 'dir', path: relPath });
@@ -97,7 +433,68 @@ function registerAgentAPIs(server: any) {
       res.setHeader('Content-Type', 'application/json');
       res.end(JSON.stringify({ success: true, files: tree }));
     } catch (e: any) {
-      res.statusCode = 400;
+      res.statusCode = e instanceof WorkspaceAccessError ? 403 : 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: false, error: e.message }));
+    }
+  });
+
+  // Find files by glob pattern, skipping .gitignore'd paths (glob tool)
+  server.middlewares.use('/api/files/glob', async (req: any, res: any) => {
+    if (req.method !== 'POST') { res.statusCode = 405; return res.end('Method Not Allowed'); }
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    try {
+      const { pattern, cwd, maxResults = 500 } = JSON.parse(body || '{}');
+      if (!pattern || typeof pattern !== 'string') throw new Error('pattern required');
+      const matches = await new FileUtilities(await resolveBaseCwd(cwd)).findFiles(relativeGlob(pattern, 'pattern'), { gitignore: true });
+      const found = [];
+      for (const f of matches) if (await jail.allows(f.path)) found.push(f);
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({
+        success: true,
+        files: found.slice(0, maxResults).map(f => f.relativePath),
+        total: found.length,
+        truncated: found.length > maxResults,
+      }));
+    } catch (e: any) {
+      res.statusCode = e instanceof WorkspaceAccessError ? 403 : 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: false, error: e.message }));
+    }
+  });
+
+  // Search file contents with context lines (grep tool)
+  server.middlewares.use('/api/files/search', async (req: any, res: any) => {
+    if (req.method !== 'POST') { res.statusCode = 405; return res.end('Method Not Allowed'); }
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    try {
+      const { pattern, cwd, include = '**/*', regex = true, caseSensitive = true, contextLines = 2, maxResults = 100 } = JSON.parse(body || '{}');
+      if (!pattern || typeof pattern !== 'string') throw new Error('pattern required');
+      const search = regex || !caseSensitive
+        ? new RegExp(regex ? pattern : pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), caseSensitive ? '' : 'i')
+        : pattern;
+      // Protected files (.env) and symlinks out of the workspace are skipped before reading, so
+      // they neither leak nor use up the cap. Ask for one extra match to know whether the cap cut the results short.
+      const results = await new FileUtilities(await resolveBaseCwd(cwd)).searchInFiles(search, relativeGlob(include, 'include'), {
+        gitignore: true,
+        contextLines,
+        maxResults: maxResults + 1,
+        filter: (fullPath) => jail.allows(fullPath),
+      });
+      let total = results.reduce((n, r) => n + r.matches.length, 0);
+      const truncated = total > maxResults;
+      if (truncated) {
+        const last = results[results.length - 1];
+        last.matches.pop();
+        if (last.matches.length === 0) results.pop();
+        total = maxResults;
+      }
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: true, results: results.map(({ file, matches }) => ({ file, matches })), totalMatches: total, truncated }));
+    } catch (e: any) {
+      res.statusCode = e instanceof WorkspaceAccessError ? 403 : 400;
       res.setHeader('Content-Type', 'application/json');
       res.end(JSON.stringify({ success: false, error: e.message }));
     }
@@ -111,13 +508,13 @@ function registerAgentAPIs(server: any) {
     try {
       const { path: targetPath, cwd, recursive = true } = JSON.parse(body || '{}');
       if (!targetPath) throw new Error('path required');
-      const base = resolveBaseCwd(cwd);
-      const full = path.resolve(base, targetPath);
+      const base = await resolveBaseCwd(cwd);
+      const full = await jail.resolveForRemoval(base, targetPath);
       await fs.rm(full, { recursive, force: true });
       res.setHeader('Content-Type', 'application/json');
       res.end(JSON.stringify({ success: true }));
     } catch (e: any) {
-      res.statusCode = 400;
+      res.statusCode = e instanceof WorkspaceAccessError ? 403 : 400;
       res.setHeader('Content-Type', 'application/json');
       res.end(JSON.stringify({ success: false, error: e.message }));
     }
@@ -131,9 +528,9 @@ function registerAgentAPIs(server: any) {
     try {
       const { from, to, cwd, overwrite = true } = JSON.parse(body || '{}');
       if (!from || !to) throw new Error('from and to required');
-      const base = resolveBaseCwd(cwd);
-      const src = path.resolve(base, from);
-      const dest = path.resolve(base, to);
+      const base = await resolveBaseCwd(cwd);
+      const src = await jail.resolveForRemoval(base, from);
+      const dest = await jail.resolveForRemoval(base, to);
       await fs.mkdir(path.dirname(dest), { recursive: true });
       if (overwrite) {
         try { await fs.rm(dest, { force: true, recursive: false }); } catch {}
@@ -142,7 +539,7 @@ function registerAgentAPIs(server: any) {
       res.setHeader('Content-Type', 'application/json');
       res.end(JSON.stringify({ success: true }));
     } catch (e: any) {
-      res.statusCode = 400;
+      res.statusCode = e instanceof WorkspaceAccessError ? 403 : 400;
       res.setHeader('Content-Type', 'application/json');
       res.end(JSON.stringify({ success: false, error: e.message }));
     }
@@ -156,11 +553,29 @@ function registerAgentAPIs(server: any) {
     try {
       const { path: targetPath, cwd, recursive = true } = JSON.parse(body || '{}');
       if (!targetPath) throw new Error('path required');
-      const base = resolveBaseCwd(cwd);
-      const full = path.resolve(base, targetPath);
+      const base = await resolveBaseCwd(cwd);
+      const full = await jail.resolve(base, targetPath);
       await fs.mkdir(full, { recursive });
       res.setHeader('Content-Type', 'application/json');
       res.end(JSON.stringify({ success: true }));
+    } catch (e: any) {
+      res.statusCode = e instanceof WorkspaceAccessError ? 403 : 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: false, error: e.message }));
+    }
+  });
+
+  // Execution backends: which ones work here and the server defaults
+  server.middlewares.use('/api/sandbox/backends', async (req: any, res: any) => {
+    if (req.method !== 'POST') { res.statusCode = 405; return res.end('Method Not Allowed'); }
+    try {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({
+        success: true,
+        backends: await execution.detect(),
+        default: { backend: execution.defaultBackend, network: execution.network, env: execution.envPolicy },
+        allowed: execution.allowed(),
+      }));
     } catch (e: any) {
       res.statusCode = 400;
       res.setHeader('Content-Type', 'application/json');
@@ -168,17 +583,126 @@ function registerAgentAPIs(server: any) {
     }
   });
 
-  // Run shell command
+  // Command policy: the active rules, and with { cmd } the verdict for that
+  // command, so the dashboard can ask the user before running it.
+  // Registered before /api/shell, whose prefix match would otherwise take it.
+  server.middlewares.use('/api/shell/policy', async (req: any, res: any) => {
+    if (req.method !== 'POST') { res.statusCode = 405; return res.end('Method Not Allowed'); }
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    try {
+      const { cmd } = JSON.parse(body || '{}');
+      if (cmd !== undefined && typeof cmd !== 'string') throw new Error('cmd must be a string');
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({
+        success: true,
+        source: commandPolicy.source,
+        default: commandPolicy.defaultDecision,
+        rules: commandPolicy.rules,
+        ...(cmd ? { verdict: commandPolicy.evaluate(cmd) } : {}),
+      }));
+    } catch (e: any) {
+      res.statusCode = 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: false, error: e.message }));
+    }
+  });
+
+  // Run shell command, streaming its output as server-sent events: "stdout"
+  // and "stderr" events carry { chunk }, then a final "exit" event carries
+  // { exitCode, signal, durationMs, timedOut, truncated, sandbox }. Closing the request kills the
+  // process group, and so does output past SHELL_MAX_OUTPUT_CHARS (truncated).
+  // Registered before /api/shell, whose prefix match would otherwise take it.
+  server.middlewares.use('/api/shell/stream', async (req: any, res: any) => {
+    if (req.method !== 'POST') { res.statusCode = 405; return res.end('Method Not Allowed'); }
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    let command: PreparedCommand;
+    let timeoutMs: number;
+    try {
+      const parsed = JSON.parse(body || '{}');
+      if (!parsed.cmd || typeof parsed.cmd !== 'string') throw new Error('cmd required');
+      commandPolicy.check(parsed.cmd, { approved: parsed.approved === true });
+      command = await prepareCommand(parsed.cmd, await resolveBaseCwd(parsed.cwd), parsed.sandbox);
+      timeoutMs = shellTimeout(parsed.timeoutMs);
+    } catch (e: any) {
+      res.statusCode = e instanceof WorkspaceAccessError || e instanceof CommandPolicyError || e instanceof SandboxPolicyError ? 403 : 400;
+      res.setHeader('Content-Type', 'application/json');
+      return res.end(JSON.stringify({ success: false, error: e.message, ...(e instanceof CommandPolicyError ? { policy: e.verdict } : {}) }));
+    }
+
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    // Once the client has gone there is nobody to write to
+    const send = (event: string, data: unknown) => {
+      if (!res.destroyed) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    try {
+      const { exitCode, signal, durationMs, timedOut, truncated, sandbox } = await runShellCommand(command, { maxBuffer: SHELL_MAX_OUTPUT_CHARS, timeoutMs }, res,
+        (stream, chunk) => send(stream, { chunk }));
+      send('exit', { exitCode, signal, durationMs, timedOut, truncated, sandbox });
+    } catch (e: any) {
+      send('error', { error: e.message });
+    }
+    res.end();
+  });
+
+  // Run shell command; responds with { success, exitCode, signal, stdout, stderr, durationMs, timedOut, truncated, sandbox }
   server.middlewares.use('/api/shell', async (req: any, res: any) => {
     if (req.method !== 'POST') { res.statusCode = 405; return res.end('Method Not Allowed'); }
     let body = '';
     for await (const chunk of req) body += chunk;
     try {
-      const { cmd, cwd } = JSON.parse(body || '{}');
+      const { cmd, cwd, timeoutMs: requestedTimeout, approved, sandbox } = JSON.parse(body || '{}');
+      if (!cmd || typeof cmd !== 'string') throw new Error('cmd required');
+      commandPolicy.check(cmd, { approved: approved === true });
+      const timeoutMs = shellTimeout(requestedTimeout);
+      const command = await prepareCommand(cmd, await resolveBaseCwd(cwd), sandbox);
+      const result = await runShellCommand(command, { maxBuffer: SHELL_MAX_OUTPUT_CHARS, timeoutMs }, res);
+      // The command ran, so this is a 200 either way; success reflects its exit
+      const success = result.exitCode === 0 && !result.timedOut && !result.truncated;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success, ...result, ...(success ? {} : { error: `Command failed (${describeShellExit(result, timeoutMs)}): ${cmd}` }) }));
+    } catch (e: any) {
+      res.statusCode = e instanceof WorkspaceAccessError || e instanceof CommandPolicyError || e instanceof SandboxPolicyError ? 403 : 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: false, error: e.message, ...(e instanceof CommandPolicyError ? { policy: e.verdict } : {}) }));
+    }
+  });
+
+  // Start a background process; waits up to waitMs (default 2s) for early
+  // output or exit, then responds with { success, process, output }
+  server.middlewares.use('/api/processes/start', async (req: any, res: any) => {
+    if (req.method !== 'POST') { res.statusCode = 405; return res.end('Method Not Allowed'); }
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    try {
+      const { cmd, cwd, name, waitMs, approved, sandbox } = JSON.parse(body || '{}');
       if (!cmd || typeof cmd !== 'string') throw new Error('cmd required');
-      const { stdout, stderr } = await exec(cmd, { cwd: resolveBaseCwd(cwd), env: process.env, maxBuffer: 10 * 1024 * 1024 });
+      commandPolicy.check(cmd, { approved: approved === true });
+      const base = await resolveBaseCwd(cwd);
+      const exec = await prepareCommand(cmd, base, sandbox);
+      const started = processes.start({ cmd, cwd: base, name: typeof name === 'string' ? name : undefined, exec });
+      const wait = Math.min(Number(waitMs) >= 0 ? Number(waitMs) : PROCESS_START_WAIT_MS, PROCESS_MAX_START_WAIT_MS);
+      await processes.waitFor(started.id, wait);
+      const { output, cursor } = processes.read(started.id, { since: 0 });
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: true, process: { ...(await processes.describe(started.id)), cursor }, output }));
+    } catch (e: any) {
+      res.statusCode = e instanceof WorkspaceAccessError || e instanceof CommandPolicyError || e instanceof SandboxPolicyError ? 403 : 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: false, error: e.message, ...(e instanceof CommandPolicyError ? { policy: e.verdict } : {}) }));
+    }
+  });
+
+  // List background processes with their ports and the last tailLines (default 10) lines of output
+  server.middlewares.use('/api/processes/list', async (req: any, res: any) => {
+    if (req.method !== 'POST') { res.statusCode = 405; return res.end('Method Not Allowed'); }
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    try {
+      const { tailLines = 10 } = JSON.parse(body || '{}');
       res.setHeader('Content-Type', 'application/json');
-      res.end(JSON.stringify({ success: true, stdout, stderr }));
+      res.end(JSON.stringify({ success: true, processes: await processes.list(Number(tailLines) || 0) }));
     } catch (e: any) {
       res.statusCode = 400;
       res.setHeader('Content-Type', 'application/json');
@@ -186,21 +710,224 @@ function registerAgentAPIs(server: any) {
     }
   });
 
-  // Git commit
+  // Read a process's output: everything after cursor `since`, or the last
+  // tailLines lines; responds with { success, output, cursor, missed, process }
+  server.middlewares.use('/api/processes/output', async (req: any, res: any) => {
+    if (req.method !== 'POST') { res.statusCode = 405; return res.end('Method Not Allowed'); }
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    try {
+      const { id, since, tailLines, maxChars } = JSON.parse(body || '{}');
+      if (!id) throw new Error('id required');
+      const result = processes.read(id, { since: typeof since === 'number' ? since : undefined, tailLines: Number(tailLines) || undefined, maxChars: Number(maxChars) || undefined });
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: true, ...result, process: await processes.describe(id) }));
+    } catch (e: any) {
+      res.statusCode = 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: false, error: e.message }));
+    }
+  });
+
+  // Write to a process's stdin; eof closes it afterwards
+  server.middlewares.use('/api/processes/input', async (req: any, res: any) => {
+    if (req.method !== 'POST') { res.statusCode = 405; return res.end('Method Not Allowed'); }
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    try {
+      const { id, input, eof, approved } = JSON.parse(body || '{}');
+      if (!id || typeof input !== 'string') throw new Error('id and input required');
+      // The process may be a shell or REPL that runs whatever it is sent
+      commandPolicy.check(input, { approved: approved === true });
+      const info = await processes.sendInput(id, input, { eof: !!eof });
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: true, process: info }));
+    } catch (e: any) {
+      res.statusCode = e instanceof CommandPolicyError ? 403 : 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: false, error: e.message, ...(e instanceof CommandPolicyError ? { policy: e.verdict } : {}) }));
+    }
+  });
+
+  // Stop a process (SIGTERM to its group, then SIGKILL); remove also drops it from the list
+  server.middlewares.use('/api/processes/stop', async (req: any, res: any) => {
+    if (req.method !== 'POST') { res.statusCode = 405; return res.end('Method Not Allowed'); }
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    try {
+      const { id, remove } = JSON.parse(body || '{}');
+      if (!id) throw new Error('id required');
+      const info = await processes.stop(id, { remove: !!remove });
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: true, process: info }));
+    } catch (e: any) {
+      res.statusCode = 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: false, error: e.message }));
+    }
+  });
+
+  // Git commit: stages the given paths only, or everything when none are given
   server.middlewares.use('/api/git/commit', async (req: any, res: any) => {
     if (req.method !== 'POST') { res.statusCode = 405; return res.end('Method Not Allowed'); }
     let body = '';
     for await (const chunk of req) body += chunk;
     try {
-      const { msg, cwd } = JSON.parse(body || '{}');
+      const { msg, cwd, paths: requestedPaths } = JSON.parse(body || '{}');
       if (!msg) throw new Error('msg required');
-      const execOpts = { cwd: resolveBaseCwd(cwd), env: process.env, maxBuffer: 10 * 1024 * 1024 } as any;
-      await exec('git add -A', execOpts);
-      await exec(`git commit -m ${JSON.stringify(msg)}`, execOpts);
+      const paths = await gitPaths(requestedPaths, cwd);
+      if (paths.length > 0) {
+        await git(['add', '--', ...paths], cwd);
+        await git(['commit', '-m', msg, '--', ...paths], cwd);
+      } else {
+        await git(['add', '-A'], cwd);
+        await git(['commit', '-m', msg], cwd);
+      }
+      const hash = (await git(['rev-parse', '--short', 'HEAD'], cwd)).trim();
       res.setHeader('Content-Type', 'application/json');
-      res.end(JSON.stringify({ success: true, commit: msg }));
+      res.end(JSON.stringify({ success: true, commit: msg, hash }));
     } catch (e: any) {
-      res.statusCode = 400;
+      res.statusCode = e instanceof WorkspaceAccessError ? 403 : 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: false, error: e.message }));
+    }
+  });
+
+  // Git status (parsed porcelain)
+  server.middlewares.use('/api/git/status', async (req: any, res: any) => {
+    if (req.method !== 'POST') { res.statusCode = 405; return res.end('Method Not Allowed'); }
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    try {
+      const { cwd } = JSON.parse(body || '{}');
+      const status = parseGitStatus(await git(['status', '--porcelain=v1', '-b', '-z'], cwd));
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: true, ...status }));
+    } catch (e: any) {
+      res.statusCode = e instanceof WorkspaceAccessError ? 403 : 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: false, error: e.message }));
+    }
+  });
+
+  // Git diff: working tree (or staged) changes, optionally against a ref and limited to paths
+  server.middlewares.use('/api/git/diff', async (req: any, res: any) => {
+    if (req.method !== 'POST') { res.statusCode = 405; return res.end('Method Not Allowed'); }
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    try {
+      const { cwd, staged = false, ref, paths: requestedPaths } = JSON.parse(body || '{}');
+      const paths = await gitPaths(requestedPaths, cwd);
+      const args = ['diff', ...(staged ? ['--cached'] : []), ...(ref ? [gitRef(ref, 'ref')] : [])];
+      const numstat = await git([...args, '--numstat', '--', ...paths], cwd);
+      const files = numstat.split('\n').filter(Boolean).map(line => {
+        const [added, removed, ...file] = line.split('\t');
+        // Binary files report "-" for both counts
+        return { path: file.join('\t'), added: added === '-' ? null : Number(added), removed: removed === '-' ? null : Number(removed) };
+      });
+      const diff = await git([...args, '--', ...paths], cwd);
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: true, files, diff }));
+    } catch (e: any) {
+      res.statusCode = e instanceof WorkspaceAccessError ? 403 : 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: false, error: e.message }));
+    }
+  });
+
+  // Git log
+  server.middlewares.use('/api/git/log', async (req: any, res: any) => {
+    if (req.method !== 'POST') { res.statusCode = 405; return res.end('Method Not Allowed'); }
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    try {
+      const { cwd, maxCount = 20, ref, path: filePath } = JSON.parse(body || '{}');
+      // Unit/record separators keep subjects with tabs or newlines intact
+      const paths = await gitPaths(filePath ? [filePath] : [], cwd);
+      const out = await git(['log', `--max-count=${Number(maxCount) || 20}`, '--format=%H%x1f%an%x1f%aI%x1f%s%x1e', ...(ref ? [gitRef(ref, 'ref')] : []), '--', ...paths], cwd);
+      const commits = out.split('\x1e').map(r => r.trim()).filter(Boolean).map(record => {
+        const [hash, author, date, subject] = record.split('\x1f');
+        return { hash, author, date, subject };
+      });
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: true, commits }));
+    } catch (e: any) {
+      res.statusCode = e instanceof WorkspaceAccessError ? 403 : 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: false, error: e.message }));
+    }
+  });
+
+  // Git branch: list, or create/delete when a name is given
+  server.middlewares.use('/api/git/branch', async (req: any, res: any) => {
+    if (req.method !== 'POST') { res.statusCode = 405; return res.end('Method Not Allowed'); }
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    try {
+      const { cwd, name, startPoint, delete: remove = false } = JSON.parse(body || '{}');
+      if (name && remove) await git(['branch', '-d', gitRef(name, 'name')], cwd);
+      else if (name) await git(['branch', gitRef(name, 'name'), ...(startPoint ? [gitRef(startPoint, 'startPoint')] : [])], cwd);
+      const out = await git(['branch', '--format=%(HEAD)%1f%(refname:short)%1f%(objectname:short)%1f%(upstream:short)'], cwd);
+      const branches = out.split('\n').filter(Boolean).map(line => {
+        const [head, branchName, commit, upstream] = line.split('\x1f');
+        return { name: branchName, current: head === '*', commit, upstream: upstream || null };
+      });
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: true, branches, current: branches.find(b => b.current)?.name || null }));
+    } catch (e: any) {
+      res.statusCode = e instanceof WorkspaceAccessError ? 403 : 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: false, error: e.message }));
+    }
+  });
+
+  // Git checkout: switch (or create with create: true) a branch, or restore paths from ref
+  server.middlewares.use('/api/git/checkout', async (req: any, res: any) => {
+    if (req.method !== 'POST') { res.statusCode = 405; return res.end('Method Not Allowed'); }
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    try {
+      const { cwd, ref, create = false, paths: requestedPaths } = JSON.parse(body || '{}');
+      const paths = await gitPaths(requestedPaths, cwd);
+      if (!ref && paths.length === 0) throw new Error('ref or paths required');
+      if (paths.length > 0) await git(['checkout', ...(ref ? [gitRef(ref, 'ref')] : []), '--', ...paths], cwd);
+      else await git(['checkout', ...(create ? ['-b'] : []), gitRef(ref, 'ref')], cwd);
+      const head = (await git(['rev-parse', '--abbrev-ref', 'HEAD'], cwd)).trim();
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: true, head }));
+    } catch (e: any) {
+      res.statusCode = e instanceof WorkspaceAccessError ? 403 : 400;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: false, error: e.message }));
+    }
+  });
+
+  // Git stash: push (default), pop, apply, drop or list
+  server.middlewares.use('/api/git/stash', async (req: any, res: any) => {
+    if (req.method !== 'POST') { res.statusCode = 405; return res.end('Method Not Allowed'); }
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    try {
+      const { cwd, action = 'push', message, index } = JSON.parse(body || '{}');
+      const stashRef = index !== undefined ? [`stash@{${Number(index)}}`] : [];
+      let output = '';
+      switch (action) {
+        case 'push': output = await git(['stash', 'push', '--include-untracked', ...(message ? ['-m', message] : [])], cwd); break;
+        case 'pop':
+        case 'apply':
+        case 'drop': output = await git(['stash', action, ...stashRef], cwd); break;
+        case 'list': break;
+        default: throw new Error(`Unknown stash action: ${action}`);
+      }
+      const list = await git(['stash', 'list', '--format=%gd%x1f%s'], cwd);
+      const stashes = list.split('\n').filter(Boolean).map(line => {
+        const [ref, subject] = line.split('\x1f');
+        return { ref, subject };
+      });
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ success: true, output: output.trim(), stashes }));
+    } catch (e: any) {
+      res.statusCode = e instanceof WorkspaceAccessError ? 403 : 400;
       res.setHeader('Content-Type', 'application/json');
       res.end(JSON.stringify({ success: false, error: e.message }));
     }
@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Unit tests for src/lib and tools/. Kept apart from vite.config.ts so test
+// runs do not register the dev-server agent API.
+export default defineConfig({
+  test: {
+    include: ["src/**/*.test.ts", "tools/**/*.test.js"],
+    environment: "node",
+  },
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+});